@@ -0,0 +1,20 @@
+import {
+  cancelJob,
+  getJobStatus,
+  handleMockRequest,
+  readPredictionId,
+  STATUS_MESSAGES,
+  toStatusData,
+} from '@/lib/mock/mockBackend';
+
+export async function POST(request: Request) {
+  return handleMockRequest('cancel', async () => {
+    const job = await readPredictionId(request);
+    cancelJob(job);
+    return Response.json({
+      status: 'success',
+      message: STATUS_MESSAGES[getJobStatus(job)],
+      data: toStatusData(job, new URL(request.url).origin),
+    });
+  });
+}
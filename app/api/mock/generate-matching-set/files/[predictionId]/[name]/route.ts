@@ -0,0 +1,48 @@
+import { isMockBackend } from '@/lib/config';
+import { errorResponse, getJob, getJobStatus, INPUT_FIELDS, type MockInputField } from '@/lib/mock/mockBackend';
+import { renderPlaceholder } from '@/lib/mock/placeholder';
+
+interface FileRouteContext {
+  params: Promise<{ predictionId: string; name: string }>;
+}
+
+/**
+ * Serves a mock job's uploads (`model_image`, `top_image`, ...) and rendered outputs (`output-<index>`)
+ */
+export async function GET(_request: Request, { params }: FileRouteContext) {
+  if (!isMockBackend) {
+    return errorResponse('The mock backend is disabled', 404);
+  }
+
+  const { predictionId, name } = await params;
+  const job = getJob(predictionId);
+  if (!job) {
+    return errorResponse('Prediction not found', 404);
+  }
+
+  if ((INPUT_FIELDS as readonly string[]).includes(name)) {
+    const input = job.inputs[name as MockInputField];
+    if (!input) {
+      return errorResponse(`${name} was not uploaded`, 404);
+    }
+    return new Response(new Uint8Array(input.bytes), { headers: { 'Content-Type': input.type } });
+  }
+
+  const index = Number(name.match(/^output-(\d+)$/)?.[1] ?? NaN);
+  if (!Number.isInteger(index) || index >= job.numOutputs || getJobStatus(job) !== 'succeeded') {
+    return errorResponse('Output not found', 404);
+  }
+
+  let output = job.outputs.get(index);
+  if (!output) {
+    output = await renderPlaceholder(job, index);
+    job.outputs.set(index, output);
+  }
+  return new Response(new Uint8Array(output), {
+    headers: {
+      'Content-Type': 'image/jpeg',
+      // Outputs never change once rendered
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    },
+  });
+}
@@ -0,0 +1,15 @@
+import { createJob, handleMockRequest, MockRequestError, toSubmitData } from '@/lib/mock/mockBackend';
+
+export async function POST(request: Request) {
+  return handleMockRequest('remix-images', async (rule) => {
+    const form = await request.formData().catch(() => {
+      throw new MockRequestError('Expected multipart form data');
+    });
+    const job = await createJob(form, rule?.failJob ?? null);
+    return Response.json({
+      status: 'success',
+      message: 'Mock prediction created',
+      data: toSubmitData(job, new URL(request.url).origin),
+    });
+  });
+}
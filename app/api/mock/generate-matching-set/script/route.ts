@@ -0,0 +1,38 @@
+import { isMockBackend } from '@/lib/config';
+import { errorResponse, getScript, MockRequestError, parseScript, resetScript, setScript } from '@/lib/mock/mockBackend';
+
+/**
+ * Control endpoint for the mock backend's timeline and injected errors, e.g.
+ *
+ *   curl -X PUT localhost:3000/api/mock/generate-matching-set/script \
+ *     -d '{"timeline":{"processingMs":3000},"rules":[{"endpoint":"status","httpStatus":503,"times":2}]}'
+ */
+
+function disabled(): Response | null {
+  return isMockBackend ? null : errorResponse('The mock backend is disabled', 404);
+}
+
+export async function GET() {
+  return disabled() ?? Response.json(getScript());
+}
+
+export async function PUT(request: Request) {
+  const response = disabled();
+  if (response) return response;
+
+  try {
+    const script = parseScript(await request.json().catch(() => null));
+    setScript(script);
+    return Response.json(script);
+  } catch (err) {
+    if (err instanceof MockRequestError) {
+      return errorResponse(err.message, err.status);
+    }
+    throw err;
+  }
+}
+
+// Back to the timeline and rules from the environment
+export async function DELETE() {
+  return disabled() ?? Response.json(resetScript());
+}
@@ -0,0 +1,12 @@
+import { getJobStatus, handleMockRequest, readPredictionId, STATUS_MESSAGES, toStatusData } from '@/lib/mock/mockBackend';
+
+export async function POST(request: Request) {
+  return handleMockRequest('status', async () => {
+    const job = await readPredictionId(request);
+    return Response.json({
+      status: 'success',
+      message: STATUS_MESSAGES[getJobStatus(job)],
+      data: toStatusData(job, new URL(request.url).origin),
+    });
+  });
+}
@@ -0,0 +1,50 @@
+import { ensureJobOwner, getRequestUser, requireRequestUser, type RequestUser } from '@/lib/server/auth';
+import { callEdgeFunction, proxyErrorResponse, proxyResponse, type EdgeFunctionEndpoint } from '@/lib/server/edgeFunction';
+import { clientKey, statusRateLimit } from '@/lib/server/rateLimit';
+
+interface TryOnRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const STATUS_TIMEOUT_MS = 15000;
+
+async function forward(
+  endpoint: EdgeFunctionEndpoint,
+  request: Request,
+  { params }: TryOnRouteContext,
+  requestUser: RequestUser | null
+) {
+  const key = clientKey(request.headers, requestUser?.user.id);
+  statusRateLimit.take(key);
+
+  const { id } = await params;
+  const result = await callEdgeFunction(endpoint, { prediction_id: id }, { timeoutMs: STATUS_TIMEOUT_MS });
+  return proxyResponse(result);
+}
+
+/**
+ * Status of a try-on, from the edge function's `/status`. Anyone with the prediction id
+ * may read it, so share links work for reviewers who aren't signed in.
+ */
+export async function GET(request: Request, context: TryOnRouteContext) {
+  try {
+    return await forward('status', request, context, await getRequestUser(request));
+  } catch (err) {
+    return proxyErrorResponse(err);
+  }
+}
+
+/**
+ * Cancel a try-on through the edge function's `/cancel`; only its owner may
+ */
+export async function DELETE(request: Request, context: TryOnRouteContext) {
+  try {
+    const requestUser = await requireRequestUser(request, 'cancel try-ons');
+    if (requestUser) {
+      await ensureJobOwner(requestUser, (await context.params).id);
+    }
+    return await forward('cancel', request, context, requestUser);
+  } catch (err) {
+    return proxyErrorResponse(err);
+  }
+}
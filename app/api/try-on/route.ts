@@ -0,0 +1,44 @@
+import type { GenerateMatchingSetResponse } from '@/lib/api/matchingSet';
+import { recordJobOwner, requireRequestUser } from '@/lib/server/auth';
+import { callEdgeFunction, proxyErrorResponse, proxyResponse, ProxyError } from '@/lib/server/edgeFunction';
+import { clientKey, dailyQuota, submitRateLimit } from '@/lib/server/rateLimit';
+import { buildEdgeFunctionForm } from '@/lib/server/tryOnForm';
+
+// Uploading the images to the model can take a while
+const SUBMIT_TIMEOUT_MS = 60000;
+
+/**
+ * Submit a try-on: validated, rate limited and forwarded to the edge function's `/remix-images`
+ */
+export async function POST(request: Request) {
+  try {
+    const requestUser = await requireRequestUser(request, 'generate try-ons');
+    const key = clientKey(request.headers, requestUser?.user.id);
+    // Rejected submissions count towards the rate limit too, but not the quota
+    submitRateLimit.take(key);
+    // Reserved before anything is awaited, so parallel submissions can't all pass the check
+    const releaseQuota = dailyQuota.take(key);
+
+    let result;
+    try {
+      const form = await request.formData().catch(() => {
+        throw new ProxyError('Expected multipart form data', 400);
+      });
+      result = await callEdgeFunction('remix-images', await buildEdgeFunctionForm(form), { timeoutMs: SUBMIT_TIMEOUT_MS });
+    } catch (err) {
+      releaseQuota();
+      throw err;
+    }
+    if (result.status < 200 || result.status >= 300) {
+      releaseQuota();
+    } else {
+      const predictionId = (result.body as GenerateMatchingSetResponse).data?.prediction_id;
+      if (requestUser && predictionId) {
+        await recordJobOwner(requestUser, predictionId);
+      }
+    }
+    return proxyResponse(result);
+  } catch (err) {
+    return proxyErrorResponse(err);
+  }
+}
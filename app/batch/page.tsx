@@ -0,0 +1,351 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import ImageUpload from '@/components/ImageUpload';
+import BatchMatrix from '@/components/BatchMatrix';
+import { cancelJob, generateMatchingSet, isTerminalStatus, TERMINAL_JOB_STATUSES, type ClothingImages } from '@/lib/api/matchingSet';
+import { subscribeToJob } from '@/lib/api/jobSubscription';
+import { isAbortError } from '@/lib/api/errors';
+import { recordJob, storeJobOutputs, updateJob, type JobHistoryEntry } from '@/lib/db/jobHistory';
+import { useSession } from '@/lib/hooks/useSession';
+import { compressForUpload, createThumbnail } from '@/lib/utils/imageCompression';
+import { CLOTHING_SLOTS, type ClothingType } from '@/lib/utils/clothingSlots';
+import { createConcurrencyLimiter } from '@/lib/utils/concurrency';
+import { buildGarmentCombos, buildJobGrid, type BatchCell, type BatchCellState, type BatchGrid, type GarmentCombo } from '@/lib/utils/batchGrid';
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6];
+const DEFAULT_CONCURRENCY = 2;
+
+// Stopping the batch stops watching its jobs, so the jobs themselves are canceled rather than left running unseen
+const cancelAbandonedJob = (predictionId: string) => {
+  cancelJob(predictionId).catch((err) => console.warn(`Failed to cancel batch job ${predictionId}:`, err));
+};
+
+function jobThumbnails(thumbnails: Map<File, string>, model: File, combo: GarmentCombo): JobHistoryEntry['thumbnails'] {
+  const garments: Partial<Record<ClothingType, string>> = {};
+  for (const slot of CLOTHING_SLOTS) {
+    const file = combo[slot.type];
+    const thumbnail = file && thumbnails.get(file);
+    if (thumbnail) {
+      garments[slot.type] = thumbnail;
+    }
+  }
+  return { model: thumbnails.get(model) ?? null, garments };
+}
+
+const queuedCell = (): BatchCellState => ({ status: 'queued', predictionId: null, outputs: [], error: null });
+
+const isCellFinished = (state: BatchCellState) => (TERMINAL_JOB_STATUSES as readonly string[]).includes(state.status);
+
+export default function BatchPage() {
+  const { userId } = useSession();
+  const [models, setModels] = useState<File[]>([]);
+  const [garments, setGarments] = useState<Partial<Record<ClothingType, File[]>>>({});
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [grid, setGrid] = useState<BatchGrid | null>(null);
+  const [cellStates, setCellStates] = useState<Record<string, BatchCellState>>({});
+  const [thumbnails, setThumbnails] = useState<Map<File, string>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+  const [qualityBlocking, setQualityBlocking] = useState<Record<string, boolean>>({});
+
+  const limiterRef = useRef(createConcurrencyLimiter(DEFAULT_CONCURRENCY));
+  // Each upload is compressed once, however many cells it appears in
+  const compressedRef = useRef(new Map<File, Promise<File>>());
+  const unsubscribesRef = useRef(new Map<string, () => void>());
+  const abortRef = useRef<AbortController | null>(null);
+  // Read by running cells when recording their jobs, which outlive the render that started them
+  const thumbnailsRef = useRef(thumbnails);
+
+  // Stop every submission and subscription when leaving the page
+  useEffect(() => {
+    const unsubscribes = unsubscribesRef.current;
+    return () => {
+      abortRef.current?.abort();
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      unsubscribes.clear();
+    };
+  }, []);
+
+  const jobCount = models.length * buildGarmentCombos(garments).length;
+  const hasQualityWarnings = Object.values(qualityBlocking).some(Boolean);
+  const handleQualityBlocking = (key: string) => (blocking: boolean) => {
+    setQualityBlocking((current) => (current[key] === blocking ? current : { ...current, [key]: blocking }));
+  };
+  const isRunning = Object.values(cellStates).some((state) => !isCellFinished(state));
+
+  const setCell = (id: string, patch: Partial<BatchCellState>) => {
+    setCellStates((current) => ({ ...current, [id]: { ...current[id], ...patch } }));
+  };
+
+  const compressOnce = (file: File): Promise<File> => {
+    let compressed = compressedRef.current.get(file);
+    if (!compressed) {
+      compressed = compressForUpload(file);
+      compressedRef.current.set(file, compressed);
+      // Let a later retry try again instead of reusing the failure
+      compressed.catch(() => compressedRef.current.delete(file));
+    }
+    return compressed;
+  };
+
+  /**
+   * Submit one cell and hold its concurrency slot until the job finishes
+   */
+  const runCell = (batch: BatchGrid, cell: BatchCell, signal: AbortSignal) =>
+    limiterRef.current.run(async () => {
+      if (signal.aborted) return;
+
+      try {
+        setCell(cell.id, { status: 'compressing' });
+        const combo = batch.combos[cell.comboIndex];
+        const modelFile = await compressOnce(batch.models[cell.modelIndex]);
+        const clothingImages: ClothingImages = {};
+        for (const slot of CLOTHING_SLOTS) {
+          const file = combo[slot.type];
+          if (file) {
+            clothingImages[slot.field] = await compressOnce(file);
+          }
+        }
+
+        if (signal.aborted) return;
+        setCell(cell.id, { status: 'submitting' });
+        // Not aborted midway: the backend may create the job anyway, and then it needs canceling
+        const response = await generateMatchingSet(modelFile, clothingImages, { numOutputs: 1 });
+        if (response.status !== 'success' || !response.data.prediction_id) {
+          throw new Error(response.message || 'Failed to start generation');
+        }
+        const predictionId = response.data.prediction_id;
+        if (signal.aborted) {
+          cancelAbandonedJob(predictionId);
+          return;
+        }
+        setCell(cell.id, { status: response.data.status, predictionId });
+        const garmentSlots = CLOTHING_SLOTS.filter((slot) => combo[slot.type]).map((slot) => slot.type);
+        // History is best-effort and never holds up the batch
+        recordJob({
+          predictionId,
+          userId,
+          status: response.data.status,
+          message: '',
+          error: null,
+          garmentSlots,
+          thumbnails: jobThumbnails(thumbnailsRef.current, batch.models[cell.modelIndex], combo),
+          output: [],
+          createdAt: null,
+          startedAt: null,
+          completedAt: null,
+          recordedAt: Date.now(),
+        }).catch((err) => console.warn('Failed to record job history:', err));
+
+        await new Promise<void>((resolve) => {
+          const finish = () => {
+            signal.removeEventListener('abort', handleAbort);
+            unsubscribesRef.current.get(cell.id)?.();
+            unsubscribesRef.current.delete(cell.id);
+            resolve();
+          };
+          const handleAbort = () => {
+            cancelAbandonedJob(predictionId);
+            finish();
+          };
+          signal.addEventListener('abort', handleAbort, { once: true });
+
+          unsubscribesRef.current.set(cell.id, subscribeToJob(predictionId, {
+            onUpdate: (update) => {
+              const output = update.output ? ([] as string[]).concat(update.output) : [];
+              setCell(cell.id, {
+                status: update.status,
+                error: update.error,
+                ...(output.length > 0 && { outputs: output }),
+              });
+              updateJob(predictionId, {
+                status: update.status,
+                error: update.error,
+                createdAt: update.created_at,
+                startedAt: update.started_at,
+                completedAt: update.completed_at,
+                ...(output.length > 0 && { output }),
+                ...(update.message !== undefined && { message: update.message }),
+              }).catch((err) => console.warn('Failed to update job history:', err));
+              if (update.status === 'succeeded' && output.length > 0) {
+                storeJobOutputs(predictionId, output)
+                  .catch((err) => console.warn('Failed to save job outputs to history:', err));
+              }
+              if (isTerminalStatus(update.status)) finish();
+            },
+            onError: (err) => {
+              setCell(cell.id, { status: 'failed', error: err instanceof Error ? err.message : 'Failed to check job status' });
+              finish();
+            },
+          }));
+        });
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error(`Batch cell ${cell.id} failed:`, err);
+        setCell(cell.id, { status: 'failed', error: err instanceof Error ? err.message : 'Failed to start generation' });
+      }
+    });
+
+  const handleStart = async () => {
+    setError(null);
+    const batch = buildJobGrid(models, garments);
+    if (batch.cells.length === 0) {
+      setError('Please upload at least one model image and one clothing item');
+      return;
+    }
+    if (hasQualityWarnings) {
+      setError('Some images may give poor results. Replace them, or tick "Use anyway" to continue.');
+      return;
+    }
+
+    abortRef.current?.abort();
+    unsubscribesRef.current.forEach((unsubscribe) => unsubscribe());
+    unsubscribesRef.current.clear();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setGrid(batch);
+    setCellStates(Object.fromEntries(batch.cells.map((cell) => [cell.id, queuedCell()])));
+
+    try {
+      const files = [...batch.models, ...batch.combos.flatMap((combo) => Object.values(combo))];
+      const uniqueFiles = [...new Set(files)];
+      const urls = await Promise.all(uniqueFiles.map((file) => createThumbnail(file)));
+      const batchThumbnails = new Map(uniqueFiles.map((file, index) => [file, urls[index]]));
+      thumbnailsRef.current = batchThumbnails;
+      setThumbnails(batchThumbnails);
+    } catch (err) {
+      console.warn('Failed to create batch thumbnails:', err);
+    }
+
+    batch.cells.forEach((cell) => runCell(batch, cell, controller.signal));
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+    // A fresh signal lets stopped cells be retried one by one
+    abortRef.current = new AbortController();
+    unsubscribesRef.current.forEach((unsubscribe) => unsubscribe());
+    unsubscribesRef.current.clear();
+    setCellStates((current) =>
+      Object.fromEntries(
+        Object.entries(current).map(([id, state]) => [
+          id,
+          isCellFinished(state) ? state : { ...state, status: 'canceled', error: 'Stopped' },
+        ])
+      )
+    );
+  };
+
+  const handleRetry = (cell: BatchCell) => {
+    if (!grid || !abortRef.current) return;
+    setCell(cell.id, queuedCell());
+    runCell(grid, cell, abortRef.current.signal);
+  };
+
+  const handleConcurrencyChange = (limit: number) => {
+    setConcurrency(limit);
+    limiterRef.current.setLimit(limit);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-2">
+            Batch Try-On
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Render every outfit on every model in one run
+          </p>
+          <Link
+            href="/"
+            className="inline-block mt-3 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Back to generator
+          </Link>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 md:p-8 space-y-8">
+          {error && (
+            <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ImageUpload
+              label="Model Images"
+              acceptMultiple={true}
+              onFilesChange={setModels}
+              selectedFiles={models}
+              required
+              showCompressionNote={true}
+              qualityProfile="model"
+              onQualityBlockingChange={handleQualityBlocking('models')}
+            />
+            <div className="space-y-4">
+              {CLOTHING_SLOTS.map((slot) => (
+                <ImageUpload
+                  key={slot.type}
+                  label={slot.label}
+                  acceptMultiple={true}
+                  onFilesChange={(files) => setGarments((current) => ({ ...current, [slot.type]: files }))}
+                  selectedFiles={garments[slot.type] || []}
+                  qualityProfile="garment"
+                  onQualityBlockingChange={handleQualityBlocking(slot.type)}
+                />
+              ))}
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Tops, bottoms and outerwear are combined into every possible outfit. Dresses become their own outfits since they cannot be worn with a top or bottom.
+          </p>
+
+          <div className="flex flex-col sm:flex-row gap-4 items-stretch sm:items-end">
+            <div>
+              <label htmlFor="batch-concurrency" className="block text-sm font-semibold mb-2 text-gray-700 dark:text-gray-300">
+                Jobs at once
+              </label>
+              <select
+                id="batch-concurrency"
+                value={concurrency}
+                onChange={(e) => handleConcurrencyChange(parseInt(e.target.value))}
+                className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {CONCURRENCY_OPTIONS.map((option) => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="button"
+              onClick={handleStart}
+              disabled={isRunning || jobCount === 0 || hasQualityWarnings}
+              className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-all duration-200 shadow-md hover:shadow-lg disabled:shadow-none cursor-pointer active:scale-[0.98]"
+            >
+              {isRunning ? 'Batch running...' : `Start batch (${jobCount} ${jobCount === 1 ? 'job' : 'jobs'})`}
+            </button>
+            {isRunning && (
+              <button
+                type="button"
+                onClick={handleStop}
+                className="px-6 py-3 bg-white dark:bg-gray-700 text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-lg font-medium hover:bg-red-50 dark:hover:bg-red-900/20 transition-all duration-200 cursor-pointer active:scale-[0.98]"
+              >
+                Stop
+              </button>
+            )}
+          </div>
+
+          {grid && (
+            <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
+              <BatchMatrix grid={grid} cellStates={cellStates} thumbnails={thumbnails} onRetry={handleRetry} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
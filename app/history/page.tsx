@@ -0,0 +1,233 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import StatusDisplay from '@/components/StatusDisplay';
+import ResultGallery from '@/components/ResultGallery';
+import { listJobs, deleteJob, type JobHistoryEntry } from '@/lib/db/jobHistory';
+import { useSession } from '@/lib/hooks/useSession';
+import { CLOTHING_SLOTS, type ClothingType } from '@/lib/utils/clothingSlots';
+import { buildResultArchive, saveBlob } from '@/lib/utils/resultArchive';
+import type { JobStatus } from '@/lib/api/matchingSet';
+
+const STATUS_FILTERS: JobStatus[] = ['starting', 'processing', 'succeeded', 'failed', 'canceled'];
+
+const formatTimestamp = (value: string | number | null): string => {
+  if (value === null) return '—';
+  return new Date(value).toLocaleString();
+};
+
+export default function HistoryPage() {
+  const { userId } = useSession();
+  const [jobs, setJobs] = useState<JobHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<JobStatus | 'all'>('all');
+  const [garmentFilter, setGarmentFilter] = useState<ClothingType | 'all'>('all');
+  const [openJobId, setOpenJobId] = useState<string | null>(null);
+  // Object URLs of the open job's saved outputs; jobs without saved copies fall back to the backend URLs
+  const [savedOutputUrls, setSavedOutputUrls] = useState<string[] | null>(null);
+  const savedOutputUrlsRef = useRef<string[] | null>(null);
+
+  useEffect(() => {
+    listJobs(userId)
+      .then(setJobs)
+      .catch((err) => {
+        console.error('Failed to load history:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      })
+      .finally(() => setIsLoading(false));
+  }, [userId]);
+
+  const filteredJobs = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return jobs.filter((job) => {
+      if (statusFilter !== 'all' && job.status !== statusFilter) return false;
+      if (garmentFilter !== 'all' && !job.garmentSlots.includes(garmentFilter)) return false;
+      if (!query) return true;
+      return [job.predictionId, job.status, job.message, job.error || '', String(job.seed ?? ''), ...job.garmentSlots]
+        .some((value) => value.toLowerCase().includes(query));
+    });
+  }, [jobs, search, statusFilter, garmentFilter]);
+
+  useEffect(() => () => savedOutputUrlsRef.current?.forEach((url) => URL.revokeObjectURL(url)), []);
+
+  const openJob = jobs.find((job) => job.predictionId === openJobId) || null;
+
+  const showJob = (job: JobHistoryEntry | null) => {
+    savedOutputUrlsRef.current?.forEach((url) => URL.revokeObjectURL(url));
+    const urls = job?.outputBlobs?.map((blob) => URL.createObjectURL(blob)) ?? null;
+    savedOutputUrlsRef.current = urls;
+    setSavedOutputUrls(urls);
+    setOpenJobId(job?.predictionId ?? null);
+  };
+
+  const handleDelete = async (predictionId: string) => {
+    try {
+      await deleteJob(predictionId);
+      setJobs((current) => current.filter((job) => job.predictionId !== predictionId));
+      if (openJobId === predictionId) showJob(null);
+    } catch (err) {
+      console.error('Failed to delete job:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete job');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-2">
+            Generation History
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Jobs generated in this browser, newest first
+          </p>
+          <Link
+            href="/"
+            className="inline-block mt-3 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Back to generator
+          </Link>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 md:p-8 space-y-6">
+          {error && (
+            <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by prediction id, status, message or seed"
+              className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as JobStatus | 'all')}
+              className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent cursor-pointer"
+            >
+              <option value="all">All statuses</option>
+              {STATUS_FILTERS.map((value) => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+            <select
+              value={garmentFilter}
+              onChange={(e) => setGarmentFilter(e.target.value as ClothingType | 'all')}
+              className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent cursor-pointer"
+            >
+              <option value="all">All garment types</option>
+              {CLOTHING_SLOTS.map((slot) => (
+                <option key={slot.type} value={slot.type}>{slot.type}</option>
+              ))}
+            </select>
+          </div>
+
+          {openJob && (
+            <div className="space-y-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                  {openJob.predictionId}
+                  {typeof openJob.seed === 'number' && <> · Seed <span className="font-mono">{openJob.seed}</span></>}
+                </p>
+                <button
+                  onClick={() => showJob(null)}
+                  className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg text-sm font-medium hover:bg-gray-300 dark:hover:bg-gray-600 transition-all duration-200 cursor-pointer"
+                >
+                  Close
+                </button>
+              </div>
+              {openJob.output.length > 0 ? (
+                <ResultGallery
+                  images={savedOutputUrls ?? openJob.output}
+                  onDownloadAll={async () => {
+                    // Only thumbnails of the inputs are kept in history, so the archive holds the outputs
+                    const archive = await buildResultArchive({
+                      predictionId: openJob.predictionId,
+                      outputs: openJob.outputBlobs ?? openJob.output,
+                      inputs: null,
+                      garmentSlots: openJob.garmentSlots,
+                      job: openJob,
+                    });
+                    saveBlob(archive, `matching-set-${openJob.predictionId}.zip`);
+                  }}
+                />
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">This job has no output images.</p>
+              )}
+            </div>
+          )}
+
+          {isLoading ? (
+            <p className="text-center text-gray-500 dark:text-gray-400">Loading history...</p>
+          ) : filteredJobs.length === 0 ? (
+            <p className="text-center text-gray-500 dark:text-gray-400">
+              {jobs.length === 0 ? 'No jobs yet. Generated results will show up here.' : 'No jobs match these filters.'}
+            </p>
+          ) : (
+            <ul className="space-y-4">
+              {filteredJobs.map((job) => (
+                <li
+                  key={job.predictionId}
+                  className="flex flex-col md:flex-row gap-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg"
+                >
+                  <div className="flex gap-2 shrink-0">
+                    {[job.thumbnails.model, ...job.garmentSlots.map((slot) => job.thumbnails.garments[slot])]
+                      .filter((thumbnail): thumbnail is string => Boolean(thumbnail))
+                      .map((thumbnail, index) => (
+                        <img
+                          key={index}
+                          src={thumbnail}
+                          alt={index === 0 ? 'Model input' : 'Garment input'}
+                          className="w-16 h-16 object-cover rounded-md bg-gray-100 dark:bg-gray-900"
+                        />
+                      ))}
+                  </div>
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <StatusDisplay status={job.status} message={job.error || job.message} />
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={job.predictionId}>
+                      {job.predictionId} · {job.garmentSlots.join(', ')}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Created {formatTimestamp(job.createdAt || job.recordedAt)} · Started {formatTimestamp(job.startedAt)} · Completed {formatTimestamp(job.completedAt)}
+                    </p>
+                  </div>
+                  <div className="flex md:flex-col gap-2 shrink-0">
+                    <button
+                      onClick={() => showJob(job)}
+                      disabled={job.output.length === 0}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-all duration-200 cursor-pointer"
+                    >
+                      Open
+                    </button>
+                    <Link
+                      href={`/result/${job.predictionId}`}
+                      target="_blank"
+                      className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg text-sm font-medium text-center hover:bg-gray-300 dark:hover:bg-gray-600 transition-all duration-200 cursor-pointer"
+                    >
+                      Share
+                    </Link>
+                    <button
+                      onClick={() => handleDelete(job.predictionId)}
+                      className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg text-sm font-medium hover:bg-gray-300 dark:hover:bg-gray-600 transition-all duration-200 cursor-pointer"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import ImageUpload from '@/components/ImageUpload';
+import { listSavedModels, createSavedModel, deleteSavedModel, type SavedModel } from '@/lib/api/modelLibrary';
+import { compressForUpload } from '@/lib/utils/imageCompression';
+
+const inputClassName =
+  'w-full px-4 py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export default function ModelsPage() {
+  const [models, setModels] = useState<SavedModel[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [image, setImage] = useState<File[]>([]);
+  const [name, setName] = useState('');
+  const [bodyType, setBodyType] = useState('');
+  const [pose, setPose] = useState('');
+  const [skinTone, setSkinTone] = useState('');
+  const [tags, setTags] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    listSavedModels()
+      .then(setModels)
+      .catch((err) => {
+        console.error('Failed to load saved models:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load saved models');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (image.length === 0) {
+      setError('Please select a model photo');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // Store the upload-ready version so it never has to be compressed again
+      const compressed = await compressForUpload(image[0]);
+      const model = await createSavedModel(compressed, {
+        name,
+        body_type: bodyType,
+        pose,
+        skin_tone: skinTone,
+        tags: tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+      });
+      setModels((current) => [model, ...current]);
+      setImage([]);
+      setName('');
+      setBodyType('');
+      setPose('');
+      setSkinTone('');
+      setTags('');
+    } catch (err) {
+      console.error('Failed to save model:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save model');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (model: SavedModel) => {
+    try {
+      await deleteSavedModel(model);
+      setModels((current) => current.filter((existing) => existing.id !== model.id));
+    } catch (err) {
+      console.error('Failed to delete model:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete model');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-2">
+            Saved Models
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Keep your house models ready to reuse in every session
+          </p>
+          <Link
+            href="/"
+            className="inline-block mt-3 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Back to generator
+          </Link>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 md:p-8 space-y-8">
+          {error && (
+            <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ImageUpload
+              label="Model Image (Person Photo)"
+              acceptMultiple={false}
+              onFilesChange={setImage}
+              selectedFiles={image}
+              required
+              showCompressionNote={true}
+            />
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="model-name" className="block text-sm font-semibold mb-2 text-gray-700 dark:text-gray-300">
+                  Name<span className="text-red-500 ml-1">*</span>
+                </label>
+                <input id="model-name" value={name} onChange={(e) => setName(e.target.value)} required className={inputClassName} />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="model-body-type" className="block text-sm font-semibold mb-2 text-gray-700 dark:text-gray-300">
+                    Body Type
+                  </label>
+                  <input id="model-body-type" value={bodyType} onChange={(e) => setBodyType(e.target.value)} className={inputClassName} />
+                </div>
+                <div>
+                  <label htmlFor="model-pose" className="block text-sm font-semibold mb-2 text-gray-700 dark:text-gray-300">
+                    Pose
+                  </label>
+                  <input id="model-pose" value={pose} onChange={(e) => setPose(e.target.value)} className={inputClassName} />
+                </div>
+                <div>
+                  <label htmlFor="model-skin-tone" className="block text-sm font-semibold mb-2 text-gray-700 dark:text-gray-300">
+                    Skin Tone
+                  </label>
+                  <input id="model-skin-tone" value={skinTone} onChange={(e) => setSkinTone(e.target.value)} className={inputClassName} />
+                </div>
+              </div>
+              <div>
+                <label htmlFor="model-tags" className="block text-sm font-semibold mb-2 text-gray-700 dark:text-gray-300">
+                  Tags
+                </label>
+                <input
+                  id="model-tags"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  placeholder="catalogue, studio"
+                  className={inputClassName}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isSaving || image.length === 0 || !name.trim()}
+                className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-all duration-200 shadow-md hover:shadow-lg disabled:shadow-none cursor-pointer active:scale-[0.98]"
+              >
+                {isSaving ? 'Saving...' : 'Save Model'}
+              </button>
+            </div>
+          </form>
+
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-6 space-y-4">
+            <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200">Library</h2>
+
+            {isLoading ? (
+              <p className="text-center text-gray-500 dark:text-gray-400">Loading saved models...</p>
+            ) : models.length === 0 ? (
+              <p className="text-center text-gray-500 dark:text-gray-400">No models saved yet.</p>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                {models.map((model) => (
+                  <div key={model.id} className="relative group rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700">
+                    <div className="aspect-[3/4] bg-gray-100 dark:bg-gray-900">
+                      {model.image_url && <img src={model.image_url} alt={model.name} className="w-full h-full object-cover" />}
+                    </div>
+                    <div className="p-2">
+                      <p className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{model.name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {[model.body_type, model.pose, model.skin_tone, ...model.tags].filter(Boolean).join(' · ')}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleDelete(model)}
+                      className="absolute top-2 right-2 bg-red-500 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-all duration-200 hover:bg-red-600 hover:scale-110 active:scale-95 cursor-pointer shadow-lg"
+                      aria-label={`Delete ${model.name}`}
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
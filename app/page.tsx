@@ -1,31 +1,224 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+import Link from 'next/link';
 import ImageUpload from '@/components/ImageUpload';
 import StatusDisplay from '@/components/StatusDisplay';
 import ResultGallery from '@/components/ResultGallery';
-import { generateMatchingSet, checkJobStatus, type StatusResponse, type ClothingImages } from '@/lib/api/matchingSet';
-import { compressImage } from '@/lib/utils/imageCompression';
+import type { ComparisonSource } from '@/components/ImageComparison';
+import OutfitTimeline from '@/components/OutfitTimeline';
+import WardrobePicker from '@/components/WardrobePicker';
+import ModelPicker from '@/components/ModelPicker';
+import StyleOptionsForm from '@/components/StyleOptionsForm';
+import JobQueuePanel from '@/components/JobQueuePanel';
+import ErrorPanel from '@/components/ErrorPanel';
+import {
+  cancelJob,
+  generateMatchingSet,
+  createRandomSeed,
+  isTerminalStatus,
+  type JobStatus,
+  type ClothingImages,
+  type GenerationSettings,
+  type StyleOptions,
+} from '@/lib/api/matchingSet';
+import { MAX_SEED } from '@/lib/config';
+import { isAbortError, ValidationError } from '@/lib/api/errors';
+import { createJobQueue, type QueuedJob } from '@/lib/api/jobQueue';
+import { loadActiveSession, saveActiveSession, clearActiveSession, type ActiveSession } from '@/lib/utils/activeSession';
+import { compressImages, createThumbnail, UPLOAD_COMPRESSION } from '@/lib/utils/imageCompression';
+import { recordJob, updateJob, storeJobOutputs, getJob, listJobs, type JobHistoryEntry } from '@/lib/db/jobHistory';
+import { useSession } from '@/lib/hooks/useSession';
+import { classifyError, classifyJobFailure, invalidInput, type ClassifiedError } from '@/lib/utils/errorClassification';
+import { requestNotificationPermission, showSystemNotification } from '@/lib/utils/notifications';
+import { estimateDurations, phaseForStatus } from '@/lib/utils/jobTiming';
+import { buildResultArchive, saveBlob } from '@/lib/utils/resultArchive';
+import { CLOTHING_SLOTS, getSlotConflicts, type ClothingType } from '@/lib/utils/clothingSlots';
+import {
+  createOutfitTree,
+  createStep,
+  getChildren,
+  getStepResult,
+  insertStep,
+  removeStep,
+  updateStep,
+  type OutfitStep,
+  type OutfitTree,
+} from '@/lib/utils/outfitTree';
 
-type ClothingType = 'top' | 'bottom' | 'outer' | 'dress';
+interface InputThumbnails {
+  model: string;
+  garments: Partial<Record<ClothingType, string>>;
+}
+
+async function createInputThumbnails(modelFile: File, clothingImages: ClothingImages): Promise<InputThumbnails> {
+  const garments: Partial<Record<ClothingType, string>> = {};
+  for (const slot of CLOTHING_SLOTS) {
+    const file = clothingImages[slot.field];
+    if (file) {
+      garments[slot.type] = await createThumbnail(file);
+    }
+  }
+  return { model: await createThumbnail(modelFile), garments };
+}
+
+/**
+ * The compressed files sent for a layer step. They only live for this page session, so a
+ * resumed step cannot be regenerated and falls back to its thumbnails for comparing.
+ */
+interface SubmittedInputs {
+  modelFile: File;
+  clothingImages: ClothingImages;
+  settings: Required<GenerationSettings>;
+  /** Full-resolution object URLs of the same files for the compare view */
+  previews: InputThumbnails;
+}
+
+/**
+ * Compressed inputs of the submission in flight, kept until the backend accepts it so a
+ * failed submission can be sent again as-is
+ */
+interface PendingSubmission extends Omit<SubmittedInputs, 'previews'> {
+  /** Step the layer builds on, or null for a new base step */
+  parentStepId: string | null;
+}
+
+// A failed cancel says nothing about the inputs, so it never offers to resubmit them
+function cancelError(err: unknown): ClassifiedError {
+  const error = classifyError(err, 'Failed to cancel the job');
+  return { ...error, detail: `The job may still be running: ${error.detail}`, retryable: false };
+}
+
+function createInputPreviews(modelFile: File, clothingImages: ClothingImages): InputThumbnails {
+  const garments: Partial<Record<ClothingType, string>> = {};
+  for (const slot of CLOTHING_SLOTS) {
+    const file = clothingImages[slot.field];
+    if (file) {
+      garments[slot.type] = URL.createObjectURL(file);
+    }
+  }
+  return { model: URL.createObjectURL(modelFile), garments };
+}
+
+function revokeInputPreviews(previews: InputThumbnails): void {
+  [previews.model, ...Object.values(previews.garments)].forEach((url) => URL.revokeObjectURL(url));
+}
+
+function garmentFilesByType(clothingImages: ClothingImages): Partial<Record<ClothingType, File>> {
+  const garments: Partial<Record<ClothingType, File>> = {};
+  for (const slot of CLOTHING_SLOTS) {
+    const file = clothingImages[slot.field];
+    if (file) {
+      garments[slot.type] = file;
+    }
+  }
+  return garments;
+}
+
+/**
+ * Save a submitted job to the local history. History is best-effort and never blocks generation.
+ */
+async function recordSubmittedJob(
+  userId: string | null,
+  predictionId: string,
+  status: JobStatus,
+  thumbnails: InputThumbnails,
+  settings: Required<GenerationSettings>
+): Promise<void> {
+  try {
+    await recordJob({
+      predictionId,
+      userId,
+      status,
+      message: '',
+      error: null,
+      seed: settings.seed,
+      prompt: settings.prompt,
+      style: settings.style,
+      garmentSlots: Object.keys(thumbnails.garments) as ClothingType[],
+      thumbnails,
+      output: [],
+      createdAt: null,
+      startedAt: null,
+      completedAt: null,
+      recordedAt: Date.now(),
+    });
+  } catch (err) {
+    console.warn('Failed to record job history:', err);
+  }
+}
+
+/**
+ * In-page notice for a job that finished while the user was doing something else
+ */
+interface JobNotice {
+  predictionId: string;
+  stepId: string | null;
+  message: string;
+  succeeded: boolean;
+}
+
+const NOTICE_DURATION_MS = 8000;
+
+const jobLabel = (garments: Partial<Record<ClothingType, string>>): string => {
+  const types = Object.keys(garments);
+  return types.length > 0 ? types.map((type) => `+${type}`).join(' ') : 'Try-on';
+};
 
 export default function Home() {
+  const { userId } = useSession();
   const [modelImage, setModelImage] = useState<File[]>([]);
   const [topImage, setTopImage] = useState<File[]>([]);
   const [bottomImage, setBottomImage] = useState<File[]>([]);
   const [outerImage, setOuterImage] = useState<File[]>([]);
   const [dressImage, setDressImage] = useState<File[]>([]);
   const [numOutputs, setNumOutputs] = useState<number>(1);
-  const [isGenerating, setIsGenerating] = useState(false);
+  const [seedInput, setSeedInput] = useState('');
+  const [prompt, setPrompt] = useState('');
+  const [style, setStyle] = useState<StyleOptions>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [isCompressing, setIsCompressing] = useState(false);
-  const [predictionId, setPredictionId] = useState<string | null>(null);
-  const [status, setStatus] = useState<string>('');
-  const [statusMessage, setStatusMessage] = useState<string>('');
-  const [generatedImages, setGeneratedImages] = useState<string | string[] | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [compressionProgress, setCompressionProgress] = useState(0);
+  const [error, setError] = useState<ClassifiedError | null>(null);
+  const [lastSubmission, setLastSubmission] = useState<PendingSubmission | null>(null);
   const [currentStep, setCurrentStep] = useState<'initial' | 'adding'>('initial');
-  const [selectedGeneratedImage, setSelectedGeneratedImage] = useState<string | null>(null);
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [outfitTree, setOutfitTree] = useState<OutfitTree>(createOutfitTree);
+  const [activeStepId, setActiveStepId] = useState<string | null>(null);
+  const [submittedInputs, setSubmittedInputs] = useState<Record<string, SubmittedInputs>>({});
+  const [qualityBlocking, setQualityBlocking] = useState<Record<string, boolean>>({});
+  const [notices, setNotices] = useState<JobNotice[]>([]);
+  // Every submitted job is tracked here, so new jobs can be started while earlier ones run
+  const [queue] = useState(() => createJobQueue());
+  const jobs = useSyncExternalStore(queue.subscribe, queue.getJobs, queue.getJobs);
+  const [pastJobs, setPastJobs] = useState<JobHistoryEntry[]>([]);
+  const submitAbortRef = useRef<AbortController | null>(null);
+  // Compressed model photos of base steps, kept in memory so branching from the base needs no re-upload
+  const baseModelFilesRef = useRef<Map<string, File>>(new Map());
+
+  const activeStep = activeStepId ? outfitTree.steps[activeStepId] || null : null;
+  const generatedImages = activeStep?.kind === 'layer' && activeStep.outputs.length > 0 ? activeStep.outputs : null;
+  const selectedGeneratedImage = activeStep?.selectedOutput || null;
+  const activeStepResult = activeStep ? getStepResult(activeStep) : null;
+  const activeJob = activeStep?.predictionId ? jobs.find((job) => job.predictionId === activeStep.predictionId) || null : null;
+  // The active layer's job hasn't finished yet, so there is nothing to build on
+  const isActivePending = activeStep?.kind === 'layer' && !(activeStep.status && isTerminalStatus(activeStep.status));
+
+  // Compare the active layer's outputs against what went into it
+  const comparisonSources: ComparisonSource[] = [];
+  if (activeStep?.kind === 'layer') {
+    const previews = submittedInputs[activeStep.id]?.previews;
+    const parentStep = activeStep.parentId ? outfitTree.steps[activeStep.parentId] : null;
+    const modelUrl = previews?.model || activeStep.modelImage;
+    if (modelUrl) {
+      comparisonSources.push({ label: parentStep?.kind === 'layer' ? 'Previous step' : 'Input model', url: modelUrl });
+    }
+    for (const slot of CLOTHING_SLOTS) {
+      const garmentUrl = previews?.garments[slot.type] || activeStep.garments[slot.type];
+      if (garmentUrl) {
+        comparisonSources.push({ label: `${slot.type.charAt(0).toUpperCase()}${slot.type.slice(1)} garment`, url: garmentUrl });
+      }
+    }
+  }
 
   // Utility function to convert image URL to File
   const urlToFile = async (url: string, filename: string = 'generated-image.png'): Promise<File> => {
@@ -34,220 +227,535 @@ export default function Home() {
     return new File([blob], filename, { type: blob.type || 'image/png' });
   };
 
+  const clothingFiles: Record<ClothingType, File[]> = {
+    top: topImage,
+    bottom: bottomImage,
+    outer: outerImage,
+    dress: dressImage,
+  };
+
   // Check if any clothing is uploaded
   const hasClothingUploaded = (): boolean => {
     return topImage.length > 0 || bottomImage.length > 0 || outerImage.length > 0 || dressImage.length > 0;
   };
 
-  // Cleanup polling on unmount
+  const slotConflicts = getSlotConflicts(
+    CLOTHING_SLOTS.filter((slot) => clothingFiles[slot.type].length > 0).map((slot) => slot.type)
+  );
+
+  // The other inputs of each upload, so it can flag near-duplicates of them. Memoized so the
+  // uploads don't re-run their quality checks on every render of the page.
+  const otherUploads = useMemo(() => {
+    const uploads: Record<'model' | ClothingType, File[]> = {
+      model: modelImage,
+      top: topImage,
+      bottom: bottomImage,
+      outer: outerImage,
+      dress: dressImage,
+    };
+    const all = Object.values(uploads).flat();
+    return Object.fromEntries(
+      Object.entries(uploads).map(([key, own]) => [key, all.filter((file) => !own.includes(file))])
+    ) as Record<'model' | ClothingType, File[]>;
+  }, [modelImage, topImage, bottomImage, outerImage, dressImage]);
+  const hasQualityWarnings = Object.values(qualityBlocking).some(Boolean);
+  const handleQualityBlocking = (key: string) => (blocking: boolean) => {
+    setQualityBlocking((current) => (current[key] === blocking ? current : { ...current, [key]: blocking }));
+  };
+
+  const clearClothing = () => {
+    setTopImage([]);
+    setBottomImage([]);
+    setOuterImage([]);
+    setDressImage([]);
+  };
+
+  // Keep local history and the outfit tree in sync with every tracked job
   useEffect(() => {
-    return () => {
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
+    return queue.onUpdate((job, update) => {
+      updateJob(job.predictionId, {
+        status: update.status,
+        error: update.error,
+        output: job.outputs,
+        createdAt: update.created_at,
+        startedAt: update.started_at,
+        completedAt: update.completed_at,
+        ...(update.message !== undefined && { message: update.message }),
+      }).catch((err) => console.warn('Failed to update job history:', err));
+      if (update.status === 'succeeded' && job.outputs.length > 0) {
+        storeJobOutputs(job.predictionId, job.outputs)
+          .catch((err) => console.warn('Failed to save job outputs to history:', err));
       }
-    };
+
+      const stepId = job.stepId;
+      if (stepId) {
+        setOutfitTree((tree) => updateStep(tree, stepId, {
+          status: update.status,
+          ...(job.outputs.length > 0 && { outputs: job.outputs }),
+        }));
+      }
+    });
+  }, [queue]);
+
+  const showStep = useCallback((stepId: string) => {
+    setActiveStepId(stepId);
+    setCurrentStep('adding');
+    setError(null);
   }, []);
 
-  const startPolling = useCallback((id: string) => {
-    // Clear any existing polling
-    if (pollingIntervalRef.current) {
-      clearInterval(pollingIntervalRef.current);
-      pollingIntervalRef.current = null;
-    }
+  // Announce finished jobs in the page, and as a system notification while the tab is in the background
+  useEffect(() => {
+    return queue.onFinished((job) => {
+      const succeeded = job.status === 'succeeded';
+      const message = succeeded
+        ? `${job.label} is ready`
+        : `${job.label} failed${job.error ? `: ${job.error}` : ''}`;
+      const notice: JobNotice = { predictionId: job.predictionId, stepId: job.stepId, message, succeeded };
+      setNotices((current) => [...current.filter((item) => item.predictionId !== job.predictionId), notice]);
+      setTimeout(() => {
+        setNotices((current) => current.filter((item) => item !== notice));
+      }, NOTICE_DURATION_MS);
+      showSystemNotification(succeeded ? 'Try-on ready' : 'Try-on failed', message, () => {
+        if (job.stepId) showStep(job.stepId);
+      });
+    });
+  }, [queue, showStep]);
 
-    const poll = async () => {
-      try {
-        const response: StatusResponse = await checkJobStatus(id);
-        const currentStatus = response.data.status;
-        setStatus(currentStatus);
-        setStatusMessage(response.message || '');
+  // Past jobs give the ETA something to go on before anything finishes in this session
+  useEffect(() => {
+    listJobs(userId)
+      .then(setPastJobs)
+      .catch((err) => console.warn('Failed to load history for the ETA:', err));
+  }, [userId]);
 
-        if (response.data.output) {
-          setGeneratedImages(response.data.output);
-        }
+  const durationEstimate = useMemo(() => {
+    const tracked = new Set(jobs.map((job) => job.predictionId));
+    return estimateDurations([...jobs, ...pastJobs.filter((job) => !tracked.has(job.predictionId))]);
+  }, [jobs, pastJobs]);
 
-        if (response.data.error) {
-          setError(response.data.error);
-          setIsGenerating(false);
-          if (pollingIntervalRef.current) {
-            clearInterval(pollingIntervalRef.current);
-            pollingIntervalRef.current = null;
-          }
-          return;
-        }
+  // Stop tracking on unmount
+  useEffect(() => {
+    return () => queue.stopAll();
+  }, [queue]);
 
-        // Stop polling if job is complete
-        if (['succeeded', 'failed', 'canceled'].includes(currentStatus)) {
-          setIsGenerating(false);
-          if (pollingIntervalRef.current) {
-            clearInterval(pollingIntervalRef.current);
-            pollingIntervalRef.current = null;
-          }
-        }
-      } catch (err) {
-        console.error('Error polling status:', err);
-        setError(err instanceof Error ? err.message : 'Failed to check job status');
-        setIsGenerating(false);
-        if (pollingIntervalRef.current) {
-          clearInterval(pollingIntervalRef.current);
-          pollingIntervalRef.current = null;
-        }
+  // Resume the outfit (and any job still running) from before a reload
+  const resumeSession = useCallback((session: ActiveSession) => {
+    setOutfitTree(session.outfitTree);
+    setActiveStepId(session.activeStepId);
+    setCurrentStep(session.currentStep);
+
+    // Follow every job that was still running; the active one is tracked once more even
+    // when finished, to pick up its final output
+    for (const step of Object.values(session.outfitTree.steps)) {
+      if (step.kind !== 'layer' || !step.predictionId) continue;
+      if (!step.status || !isTerminalStatus(step.status) || step.id === session.activeStepId) {
+        queue.add({
+          predictionId: step.predictionId,
+          label: jobLabel(step.garments),
+          thumbnail: step.modelImage,
+          stepId: step.id,
+          status: step.status,
+        });
       }
-    };
+    }
+  }, [queue]);
 
-    // Poll immediately, then every 3 seconds
-    poll();
-    pollingIntervalRef.current = setInterval(poll, 3000);
-  }, []);
+  useEffect(() => {
+    const session = loadActiveSession(userId);
+    if (session) {
+      resumeSession(session);
+    }
+  }, [userId, resumeSession]);
+
+  // Keep the persisted session in sync so a reload picks up where the user left off
+  useEffect(() => {
+    if (Object.keys(outfitTree.steps).length === 0) return;
+    saveActiveSession(userId, { currentStep, outfitTree, activeStepId });
+  }, [userId, currentStep, outfitTree, activeStepId]);
+
+  /**
+   * Send compressed inputs as a new layer on top of `parentStep`, or on a new base step, and track it
+   */
+  const submitLayer = async (
+    parentStep: OutfitStep | null,
+    modelFile: File,
+    clothingImages: ClothingImages,
+    settings: Required<GenerationSettings>,
+    signal: AbortSignal
+  ) => {
+    const thumbnails = await createInputThumbnails(modelFile, clothingImages);
+    setIsCompressing(false);
+
+    // Canceled while compressing - nothing was sent to the backend yet
+    if (signal.aborted) return;
+
+    setLastSubmission({ parentStepId: parentStep?.id ?? null, modelFile, clothingImages, settings });
+    // Not aborted midway: the backend may create the job before the abort reaches it, and then it needs canceling
+    const response = await generateMatchingSet(modelFile, clothingImages, settings);
+    if (response.status !== 'success' || !response.data.prediction_id) {
+      throw new Error(response.message || 'Failed to start generation');
+    }
+    if (signal.aborted) {
+      const predictionId = response.data.prediction_id;
+      cancelJob(predictionId).catch((err) => console.error(`Failed to cancel abandoned job ${predictionId}:`, err));
+      return;
+    }
+
+    // Other jobs keep updating the tree while this one uploads, so insert into the latest tree
+    let base: OutfitStep | null = null;
+    if (!parentStep) {
+      base = createStep({ parentId: null, kind: 'base', modelImage: thumbnails.model });
+      parentStep = base;
+      baseModelFilesRef.current.set(base.id, modelFile);
+    }
+    const layer = createStep({
+      parentId: parentStep.id,
+      kind: 'layer',
+      modelImage: getStepResult(parentStep),
+      garments: thumbnails.garments,
+      predictionId: response.data.prediction_id,
+      status: response.data.status,
+      seed: settings.seed,
+      numOutputs: settings.numOutputs,
+    });
+    setOutfitTree((tree) => insertStep(base ? insertStep(tree, base) : tree, layer));
+    setActiveStepId(layer.id);
+    setSubmittedInputs((current) => ({
+      ...current,
+      [layer.id]: { modelFile, clothingImages, settings, previews: createInputPreviews(modelFile, clothingImages) },
+    }));
+    await recordSubmittedJob(userId, response.data.prediction_id, response.data.status, thumbnails, settings);
+    queue.add({
+      predictionId: response.data.prediction_id,
+      label: jobLabel(thumbnails.garments),
+      thumbnail: thumbnails.model,
+      stepId: layer.id,
+      status: response.data.status,
+    });
+    setLastSubmission(null);
+    // Clear the garments for the next job; canceling puts them back
+    clearClothing();
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
-    setGeneratedImages(null);
-    setStatus('');
-    setStatusMessage('');
+    setLastSubmission(null);
 
     // For initial step, require model image
     if (currentStep === 'initial' && modelImage.length === 0) {
-      setError('Please select a model image');
+      setError(invalidInput('Please select a model image'));
       return;
     }
 
-    // Check which clothing image is selected
-    let selectedClothingType: ClothingType | null = null;
-    let selectedClothingFile: File | null = null;
-
-    if (topImage.length > 0) {
-      selectedClothingType = 'top';
-      selectedClothingFile = topImage[0];
-    } else if (bottomImage.length > 0) {
-      selectedClothingType = 'bottom';
-      selectedClothingFile = bottomImage[0];
-    } else if (outerImage.length > 0) {
-      selectedClothingType = 'outer';
-      selectedClothingFile = outerImage[0];
-    } else if (dressImage.length > 0) {
-      selectedClothingType = 'dress';
-      selectedClothingFile = dressImage[0];
+    if (!hasClothingUploaded()) {
+      setError(invalidInput('Please select at least one clothing item to add'));
+      return;
+    }
+
+    if (slotConflicts.length > 0) {
+      setError(invalidInput(slotConflicts.join(' ')));
+      return;
     }
 
-    if (!selectedClothingFile || !selectedClothingType) {
-      setError('Please select a clothing item to add');
+    if (hasQualityWarnings) {
+      setError(invalidInput('Some images may give poor results. Replace them, or tick "Use anyway" to continue.'));
       return;
     }
 
-    setIsGenerating(true);
+    // A blank seed gets a random one so the result can still be reproduced later
+    const settings = { numOutputs, seed: seedInput.trim() ? Number(seedInput) : createRandomSeed(), prompt, style };
+
+    setIsSubmitting(true);
     setIsCompressing(true);
+    setCompressionProgress(0);
+    requestNotificationPermission();
+    const controller = new AbortController();
+    submitAbortRef.current = controller;
 
     try {
-      // Get the model image (either initial or from generated result)
-      let modelFile: File;
+      // Get the model image (either the uploaded photo or the result of the step we build on)
+      let modelSource: File;
+      let parentStep: OutfitStep | null = null;
       if (currentStep === 'initial') {
-        modelFile = await compressImage(modelImage[0], 1920, 1920, 0.8, 1);
+        modelSource = modelImage[0];
       } else {
-        // Use the selected generated image as the new model
-        if (!selectedGeneratedImage) {
-          // If no image selected, use the first one
-          const imageArray = Array.isArray(generatedImages) ? generatedImages : [generatedImages];
-          if (imageArray.length === 0 || !imageArray[0]) {
-            throw new Error('No generated image available to continue');
+        if (!activeStep) {
+          throw new ValidationError('No generated image available to continue');
+        }
+        parentStep = activeStep;
+        if (activeStep.kind === 'base') {
+          const baseFile = baseModelFilesRef.current.get(activeStep.id);
+          if (!baseFile) {
+            throw new ValidationError('The base model photo is no longer available. Please start over and upload it again.');
           }
-          const file = await urlToFile(imageArray[0], 'model-image.png');
-          modelFile = await compressImage(file, 1920, 1920, 0.8, 1);
+          modelSource = baseFile;
         } else {
-          const file = await urlToFile(selectedGeneratedImage, 'model-image.png');
-          modelFile = await compressImage(file, 1920, 1920, 0.8, 1);
+          // Use the selected generated image as the new model, or the first one by default
+          const result = getStepResult(activeStep);
+          if (!result) {
+            throw new ValidationError('No generated image available to continue');
+          }
+          modelSource = await urlToFile(result, 'model-image.png');
         }
       }
 
-      // Compress the clothing image
-      const compressedClothing = await compressImage(selectedClothingFile, 1920, 1920, 0.8, 1);
-      
-      setIsCompressing(false);
-
-      // Build clothing images object with only the selected clothing
+      // Compress the model and every uploaded garment together, then send them in one job
+      const garmentSlots = CLOTHING_SLOTS.filter((slot) => clothingFiles[slot.type].length > 0);
+      const [modelFile, ...garmentFiles] = await compressImages(
+        [modelSource, ...garmentSlots.map((slot) => clothingFiles[slot.type][0])],
+        { ...UPLOAD_COMPRESSION, onProgress: setCompressionProgress }
+      );
       const clothingImages: ClothingImages = {};
-      if (selectedClothingType === 'top') {
-        clothingImages.top_image = compressedClothing;
-      } else if (selectedClothingType === 'bottom') {
-        clothingImages.bottom_image = compressedClothing;
-      } else if (selectedClothingType === 'outer') {
-        clothingImages.outer_image = compressedClothing;
-      } else if (selectedClothingType === 'dress') {
-        clothingImages.dress_image = compressedClothing;
+      garmentSlots.forEach((slot, index) => {
+        clothingImages[slot.field] = garmentFiles[index];
+      });
+      await submitLayer(parentStep, modelFile, clothingImages, settings, controller.signal);
+    } catch (err) {
+      // A submission canceled by the user fails quietly
+      if (isAbortError(err) || controller.signal.aborted) return;
+      console.error('Generation error:', err);
+      setError(classifyError(err, 'Failed to start generation'));
+    } finally {
+      if (submitAbortRef.current === controller) {
+        submitAbortRef.current = null;
+        setIsSubmitting(false);
+        setIsCompressing(false);
       }
+    }
+  };
 
-      const response = await generateMatchingSet(
-        modelFile,
-        clothingImages,
-        numOutputs
-      );
+  /**
+   * Send compressed inputs that were prepared earlier, skipping compression.
+   * Resolves to whether the backend accepted the job.
+   */
+  const resubmit = async (parentStep: OutfitStep | null, inputs: Omit<SubmittedInputs, 'previews'>) => {
+    setError(null);
+    setIsSubmitting(true);
+    const controller = new AbortController();
+    submitAbortRef.current = controller;
 
-      if (response.status === 'success' && response.data.prediction_id) {
-        setPredictionId(response.data.prediction_id);
-        setStatus(response.data.status);
-        // Clear the selected clothing after submission
-        setTopImage([]);
-        setBottomImage([]);
-        setOuterImage([]);
-        setDressImage([]);
-        startPolling(response.data.prediction_id);
-      } else {
-        throw new Error(response.message || 'Failed to start generation');
+    try {
+      await submitLayer(parentStep, inputs.modelFile, inputs.clothingImages, inputs.settings, controller.signal);
+      return !controller.signal.aborted;
+    } catch (err) {
+      if (isAbortError(err) || controller.signal.aborted) return false;
+      console.error('Resubmit error:', err);
+      setError(classifyError(err, 'Failed to start generation'));
+      return false;
+    } finally {
+      if (submitAbortRef.current === controller) {
+        submitAbortRef.current = null;
+        setIsSubmitting(false);
       }
+    }
+  };
+
+  // Re-submit the active layer's compressed inputs as a sibling result, with a new or the same seed
+  const handleRegenerate = async (pinSeed: boolean) => {
+    if (activeStep?.kind !== 'layer') return;
+    const inputs = submittedInputs[activeStep.id];
+    const parentStep = activeStep.parentId ? outfitTree.steps[activeStep.parentId] : null;
+    if (!inputs || !parentStep) {
+      setError(invalidInput('The inputs of this result are no longer available. Please upload them again.'));
+      return;
+    }
+    await resubmit(parentStep, {
+      ...inputs,
+      settings: { ...inputs.settings, seed: pinSeed ? inputs.settings.seed : createRandomSeed() },
+    });
+  };
+
+  // Send the submission the backend turned away again, with the same files and settings
+  const handleRetrySubmission = async () => {
+    if (!lastSubmission) return;
+    const parentStep = lastSubmission.parentStepId ? outfitTree.steps[lastSubmission.parentStepId] || null : null;
+    if (lastSubmission.parentStepId && !parentStep) {
+      setError(invalidInput('The step this try-on was built on is gone. Please upload the images again.'));
+      setLastSubmission(null);
+      return;
+    }
+    await resubmit(parentStep, lastSubmission);
+  };
+
+  // Replace the failed active layer with the same job, seed included
+  const handleRetryFailedJob = async () => {
+    if (activeStep?.kind !== 'layer') return;
+    const failedStep = activeStep;
+    const inputs = submittedInputs[failedStep.id];
+    const parentStep = failedStep.parentId ? outfitTree.steps[failedStep.parentId] : null;
+    if (!inputs || !parentStep) return;
+
+    if (await resubmit(parentStep, inputs)) {
+      setOutfitTree((tree) => removeStep(tree, failedStep.id));
+      if (failedStep.predictionId) queue.remove(failedStep.predictionId);
+      revokeInputPreviews(inputs.previews);
+      setSubmittedInputs((current) => {
+        const next = { ...current };
+        delete next[failedStep.id];
+        return next;
+      });
+    }
+  };
+
+  /**
+   * Cancel a step's job and drop the step. For the active step the garments go back into
+   * the form so they can be edited and resubmitted.
+   */
+  const cancelStep = async (step: OutfitStep) => {
+    if (!step.predictionId) return;
+    setError(null);
+
+    const isActive = step.id === activeStepId;
+    const parent = step.parentId ? outfitTree.steps[step.parentId] : null;
+    // A base created just for this job goes too, so the model photo form comes back
+    const removeId = isActive && currentStep === 'initial' && parent?.kind === 'base' && getChildren(outfitTree, parent.id).length === 1
+      ? parent.id
+      : step.id;
+    const nextTree = removeStep(outfitTree, removeId);
+    // Only the structure is read from `nextTree`; job updates may have changed the tree since render
+    setOutfitTree((tree) => removeStep(tree, removeId));
+    if (activeStepId && !nextTree.steps[activeStepId]) {
+      setActiveStepId(removeId === step.id ? step.parentId : null);
+    }
+    if (Object.keys(nextTree.steps).length === 0) {
+      clearActiveSession(userId);
+    }
+
+    const inputs = submittedInputs[step.id];
+    if (isActive && inputs) {
+      for (const slot of CLOTHING_SLOTS) {
+        const file = inputs.clothingImages[slot.field];
+        handleClothingUpload(slot.type, file ? [file] : []);
+      }
+    }
+
+    try {
+      await queue.cancel(step.predictionId);
     } catch (err) {
-      console.error('Generation error:', err);
-      setError(err instanceof Error ? err.message : 'Failed to start generation');
-      setIsGenerating(false);
+      console.error('Cancel error:', err);
+      setError(cancelError(err));
+    }
+  };
+
+  // Stop the submission in progress, or cancel the active step's job
+  const handleCancel = async () => {
+    if (isSubmitting) {
+      submitAbortRef.current?.abort();
+      submitAbortRef.current = null;
+      setIsSubmitting(false);
       setIsCompressing(false);
+      setError(null);
+      return;
+    }
+    if (activeStep && isActivePending) {
+      await cancelStep(activeStep);
+    }
+  };
+
+  const handleCancelQueuedJob = async (job: QueuedJob) => {
+    const step = job.stepId ? outfitTree.steps[job.stepId] : null;
+    if (step) {
+      await cancelStep(step);
+      return;
+    }
+    try {
+      await queue.cancel(job.predictionId);
+    } catch (err) {
+      console.error('Cancel error:', err);
+      setError(cancelError(err));
+    }
+  };
+
+  const handleViewQueuedJob = (job: QueuedJob) => {
+    if (job.stepId && outfitTree.steps[job.stepId]) {
+      showStep(job.stepId);
+    } else {
+      // The outfit was started over, but the job still has its own page
+      window.open(`/result/${job.predictionId}`, '_blank');
     }
   };
 
+  // Leave the running jobs in the queue and start a new try-on from a model photo
+  const handleNewTryOn = () => {
+    setActiveStepId(null);
+    setCurrentStep('initial');
+    setError(null);
+  };
+
   // Handle continuing to add more clothing
   const handleContinueAdding = () => {
     setCurrentStep('adding');
-    // Don't clear selectedGeneratedImage - let user keep their selection or choose a different one
-    // Clear all clothing uploaders
-    setTopImage([]);
-    setBottomImage([]);
-    setOuterImage([]);
-    setDressImage([]);
-    // Clear status and error to show the form
-    setStatus('');
-    setStatusMessage('');
+    // Don't clear the selected output - let user keep their selection or choose a different one
+    clearClothing();
+    setError(null);
+  };
+
+  const handleDownloadAll = async () => {
+    if (activeStep?.kind !== 'layer' || !generatedImages) return;
+    const job = activeStep.predictionId
+      ? await getJob(activeStep.predictionId).catch((err) => {
+          console.warn('Failed to read job history:', err);
+          return null;
+        })
+      : null;
+    const inputs = submittedInputs[activeStep.id];
+    const archive = await buildResultArchive({
+      predictionId: activeStep.predictionId,
+      outputs: generatedImages,
+      inputs: inputs ? { model: inputs.modelFile, garments: garmentFilesByType(inputs.clothingImages) } : null,
+      garmentSlots: Object.keys(activeStep.garments) as ClothingType[],
+      job,
+    });
+    saveBlob(archive, `matching-set-${activeStep.predictionId || 'results'}.zip`);
+  };
+
+  const handleSelectOutput = (imageUrl: string | null) => {
+    if (!activeStepId) return;
+    setOutfitTree((tree) => updateStep(tree, activeStepId, { selectedOutput: imageUrl }));
+  };
+
+  // Jump to any step in the timeline to branch a new layer from it
+  const handleSelectStep = (stepId: string) => {
+    if (!outfitTree.steps[stepId]) return;
+    showStep(stepId);
+  };
+
+  // Discard the current layer and go back to the step it was built on
+  const handleUndo = () => {
+    if (!activeStep?.parentId) return;
+    const parentId = activeStep.parentId;
+    // Nobody will look at the result of a discarded layer, so stop its job too
+    if (isActivePending && activeStep.predictionId) {
+      queue.cancel(activeStep.predictionId).catch((err) => console.error('Cancel error:', err));
+    }
+    setOutfitTree((tree) => removeStep(tree, activeStep.id));
+    setActiveStepId(parentId);
+    setCurrentStep('adding');
     setError(null);
   };
 
   const handleReset = () => {
     setModelImage([]);
-    setTopImage([]);
-    setBottomImage([]);
-    setOuterImage([]);
-    setDressImage([]);
+    clearClothing();
     setNumOutputs(1);
-    setPredictionId(null);
-    setStatus('');
-    setStatusMessage('');
-    setGeneratedImages(null);
+    setSeedInput('');
+    setPrompt('');
+    setStyle({});
     setError(null);
-    setIsGenerating(false);
+    setLastSubmission(null);
     setCurrentStep('initial');
-    setSelectedGeneratedImage(null);
-    if (pollingIntervalRef.current) {
-      clearInterval(pollingIntervalRef.current);
-      pollingIntervalRef.current = null;
-    }
+    setOutfitTree(createOutfitTree());
+    setActiveStepId(null);
+    baseModelFilesRef.current.clear();
+    Object.values(submittedInputs).forEach((inputs) => revokeInputPreviews(inputs.previews));
+    setSubmittedInputs({});
+    // Jobs still running stay in the queue and can be opened from their result page
+    clearActiveSession(userId);
   };
 
-  // Handle clothing upload - clear other uploaders when one is uploaded
+  // Handle clothing upload - each slot is independent so a full outfit can be sent at once
   const handleClothingUpload = (type: ClothingType, files: File[]) => {
-    // Clear all other clothing uploaders when one is uploaded
-    if (type !== 'top') setTopImage([]);
-    if (type !== 'bottom') setBottomImage([]);
-    if (type !== 'outer') setOuterImage([]);
-    if (type !== 'dress') setDressImage([]);
-    
-    // Set the selected one
     switch (type) {
       case 'top':
         setTopImage(files);
@@ -274,22 +782,90 @@ export default function Home() {
           <p className="text-gray-600 dark:text-gray-400">
             Upload a model image and clothing items to generate virtual try-on results
           </p>
+          <div className="flex justify-center gap-4 mt-3">
+            <Link
+              href="/models"
+              className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Saved models
+            </Link>
+            <Link
+              href="/wardrobe"
+              className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Wardrobe
+            </Link>
+            <Link
+              href="/batch"
+              className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Batch mode
+            </Link>
+            <Link
+              href="/history"
+              className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              View generation history
+            </Link>
+          </div>
         </div>
 
         <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 md:p-8">
           {error && (
-            <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
-              <p className="text-red-800 dark:text-red-200">{error}</p>
+            <div className="mb-6">
+              <ErrorPanel
+                error={error}
+                onRetry={lastSubmission ? handleRetrySubmission : undefined}
+                retryDisabled={isSubmitting}
+              />
+            </div>
+          )}
+
+          {jobs.length > 0 && (
+            <div className="mb-6">
+              <JobQueuePanel
+                jobs={jobs}
+                activePredictionId={activeStep?.predictionId || null}
+                onView={handleViewQueuedJob}
+                onCancel={handleCancelQueuedJob}
+                onDismiss={(job) => queue.remove(job.predictionId)}
+                onClearFinished={queue.clearFinished}
+              />
             </div>
           )}
 
-          {status && (
+          {activeStep?.kind === 'layer' && activeStep.status && !isSubmitting && !isActivePending && (
             <div className="mb-6 flex justify-center">
-              <StatusDisplay status={status} message={statusMessage} />
+              <StatusDisplay
+                status={activeStep.status}
+                message={activeJob?.error || activeJob?.message}
+                timing={activeJob ?? undefined}
+              />
+            </div>
+          )}
+
+          {activeStep?.kind === 'layer' && activeStep.status === 'failed' && !isSubmitting && (
+            <div className="mb-6">
+              <ErrorPanel
+                error={classifyJobFailure(activeJob?.error || null)}
+                onRetry={submittedInputs[activeStep.id] ? handleRetryFailedJob : undefined}
+              />
+            </div>
+          )}
+
+          {Object.keys(outfitTree.steps).length > 0 && (
+            <div className="mb-6 pb-6 border-b border-gray-200 dark:border-gray-700">
+              <OutfitTimeline
+                tree={outfitTree}
+                activeStepId={activeStepId}
+                onSelectStep={handleSelectStep}
+                onUndo={handleUndo}
+                disabled={isSubmitting}
+              />
             </div>
           )}
 
-          {(!generatedImages || currentStep === 'adding') && !isGenerating && (
+          {(!generatedImages || currentStep === 'adding') && !isSubmitting && !isActivePending && (
             <form onSubmit={handleSubmit} className="space-y-6">
               {/* Two-column layout: Model on left, Clothes on right */}
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 lg:gap-8">
@@ -304,29 +880,46 @@ export default function Home() {
                         Model Photo
                       </h2>
                       <p className="text-xs text-gray-500 dark:text-gray-400 ml-7 mt-1">
-                        {currentStep === 'initial' ? 'Upload a photo of the person' : 'Using generated image as model'}
+                        {currentStep === 'initial'
+                          ? 'Upload a photo of the person'
+                          : activeStep?.kind === 'base' ? 'Using the base model photo' : 'Using generated image as model'}
                       </p>
                     </div>
                     {currentStep === 'initial' ? (
-                      <ImageUpload
-                        label="Model Image (Person Photo)"
-                        acceptMultiple={false}
-                        onFilesChange={setModelImage}
-                        selectedFiles={modelImage}
-                        required
-                        showCompressionNote={true}
-                      />
+                      <>
+                        <ImageUpload
+                          label="Model Image (Person Photo)"
+                          acceptMultiple={false}
+                          onFilesChange={setModelImage}
+                          selectedFiles={modelImage}
+                          required
+                          showCompressionNote={true}
+                          qualityProfile="model"
+                          compareWith={otherUploads.model}
+                          onQualityBlockingChange={handleQualityBlocking('model')}
+                        />
+                        <ModelPicker onSelect={(file) => setModelImage([file])} />
+                      </>
                     ) : (
-                      <div className="border-2 border-gray-300 dark:border-gray-700 rounded-lg p-4 bg-gray-50 dark:bg-gray-900">
+                      <div className="border-2 border-gray-300 dark:border-gray-700 rounded-lg p-4 bg-gray-50 dark:bg-gray-900 space-y-3">
+                        {activeStepResult && (
+                          <img
+                            src={activeStepResult}
+                            alt="Model for the next layer"
+                            className="mx-auto max-h-[300px] w-auto rounded-md"
+                          />
+                        )}
                         <p className="text-sm text-gray-600 dark:text-gray-400 text-center">
-                          Using the generated image from the previous step as the model
+                          {activeStep?.kind === 'base'
+                            ? 'Branching from the base model photo'
+                            : 'Using the generated image from the selected step as the model'}
                         </p>
                       </div>
                     )}
                   </div>
                 </div>
 
-                {/* Right side - Clothing Images - Show all, hide others when one is uploaded */}
+                {/* Right side - Clothing Images - any combination of slots is sent in one job */}
                 <div className="space-y-4">
                   <div className="mb-4 pb-4 border-b border-gray-200 dark:border-gray-700">
                     <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200 flex items-center gap-2">
@@ -336,127 +929,107 @@ export default function Home() {
                       Clothing Items
                     </h2>
                     <p className="text-xs text-gray-500 dark:text-gray-400 ml-7 mt-1">
-                      Upload one clothing item at a time
+                      {currentStep === 'initial'
+                        ? 'Upload a full outfit or a single item — all items are generated together'
+                        : 'Optionally add more items on top of the selected result'}
                     </p>
                   </div>
                   
-                  {!hasClothingUploaded() && (
-                    <>
+                  {CLOTHING_SLOTS.map((slot) => (
+                    <div key={slot.type}>
                       <ImageUpload
-                        label="Top Image (Shirt/Top)"
+                        label={slot.label}
                         acceptMultiple={false}
-                        onFilesChange={(files) => handleClothingUpload('top', files)}
-                        selectedFiles={topImage}
+                        onFilesChange={(files) => handleClothingUpload(slot.type, files)}
+                        selectedFiles={clothingFiles[slot.type]}
                         showCompressionNote={true}
+                        qualityProfile="garment"
+                        compareWith={otherUploads[slot.type]}
+                        onQualityBlockingChange={handleQualityBlocking(slot.type)}
                       />
-
-                      <ImageUpload
-                        label="Bottom Image (Pants/Skirt)"
-                        acceptMultiple={false}
-                        onFilesChange={(files) => handleClothingUpload('bottom', files)}
-                        selectedFiles={bottomImage}
-                        showCompressionNote={true}
+                      <WardrobePicker
+                        category={slot.type}
+                        onSelect={(file) => handleClothingUpload(slot.type, [file])}
                       />
+                    </div>
+                  ))}
 
-                      <ImageUpload
-                        label="Outer Image (Jacket/Coat)"
-                        acceptMultiple={false}
-                        onFilesChange={(files) => handleClothingUpload('outer', files)}
-                        selectedFiles={outerImage}
-                        showCompressionNote={true}
-                      />
-
-                      <ImageUpload
-                        label="Dress Image (One-piece)"
-                        acceptMultiple={false}
-                        onFilesChange={(files) => handleClothingUpload('dress', files)}
-                        selectedFiles={dressImage}
-                        showCompressionNote={true}
-                      />
-                    </>
-                  )}
-
-                  {hasClothingUploaded() && (
-                    <>
-                      {topImage.length > 0 && (
-                        <ImageUpload
-                          label="Top Image (Shirt/Top)"
-                          acceptMultiple={false}
-                          onFilesChange={(files) => handleClothingUpload('top', files)}
-                          selectedFiles={topImage}
-                          showCompressionNote={true}
-                        />
-                      )}
-
-                      {bottomImage.length > 0 && (
-                        <ImageUpload
-                          label="Bottom Image (Pants/Skirt)"
-                          acceptMultiple={false}
-                          onFilesChange={(files) => handleClothingUpload('bottom', files)}
-                          selectedFiles={bottomImage}
-                          showCompressionNote={true}
-                        />
-                      )}
-
-                      {outerImage.length > 0 && (
-                        <ImageUpload
-                          label="Outer Image (Jacket/Coat)"
-                          acceptMultiple={false}
-                          onFilesChange={(files) => handleClothingUpload('outer', files)}
-                          selectedFiles={outerImage}
-                          showCompressionNote={true}
-                        />
-                      )}
-
-                      {dressImage.length > 0 && (
-                        <ImageUpload
-                          label="Dress Image (One-piece)"
-                          acceptMultiple={false}
-                          onFilesChange={(files) => handleClothingUpload('dress', files)}
-                          selectedFiles={dressImage}
-                          showCompressionNote={true}
-                        />
-                      )}
-                    </>
+                  {slotConflicts.length > 0 && (
+                    <div className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+                      {slotConflicts.map((conflict) => (
+                        <p key={conflict} className="text-sm text-amber-800 dark:text-amber-200">{conflict}</p>
+                      ))}
+                    </div>
                   )}
                 </div>
               </div>
 
               {/* Number of Outputs and Action Buttons */}
               <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
-                {/* <div className="mb-6">
-                  <label htmlFor="num_outputs" className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
-                    Number of Outputs
-                  </label>
-                  <select
-                    id="num_outputs"
-                    value={numOutputs}
-                    onChange={(e) => setNumOutputs(parseInt(e.target.value, 10))}
-                    className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent cursor-pointer transition-all hover:border-gray-400 dark:hover:border-gray-600"
-                  >
-                    <option value={1}>1 output</option>
-                    <option value={2}>2 outputs</option>
-                    <option value={3}>3 outputs</option>
-                    <option value={4}>4 outputs</option>
-                  </select>
-                  <p className="mt-1.5 text-xs text-gray-500 dark:text-gray-400">
-                    Select how many variations to generate (1-4)
-                  </p>
-                </div> */}
+                <div className="mb-6">
+                  <StyleOptionsForm
+                    prompt={prompt}
+                    style={style}
+                    onPromptChange={setPrompt}
+                    onStyleChange={setStyle}
+                    disabled={isSubmitting}
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+                  <div>
+                    <label htmlFor="num_outputs" className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
+                      Number of Outputs
+                    </label>
+                    <select
+                      id="num_outputs"
+                      value={numOutputs}
+                      onChange={(e) => setNumOutputs(parseInt(e.target.value, 10))}
+                      className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent cursor-pointer transition-all hover:border-gray-400 dark:hover:border-gray-600"
+                    >
+                      <option value={1}>1 output</option>
+                      <option value={2}>2 outputs</option>
+                      <option value={3}>3 outputs</option>
+                      <option value={4}>4 outputs</option>
+                    </select>
+                    <p className="mt-1.5 text-xs text-gray-500 dark:text-gray-400">
+                      Select how many variations to generate (1-4)
+                    </p>
+                  </div>
+                  <div>
+                    <label htmlFor="seed" className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
+                      Seed
+                    </label>
+                    <input
+                      id="seed"
+                      type="number"
+                      min={0}
+                      max={MAX_SEED}
+                      step={1}
+                      value={seedInput}
+                      onChange={(e) => setSeedInput(e.target.value)}
+                      placeholder="Random"
+                      className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all hover:border-gray-400 dark:hover:border-gray-600"
+                    />
+                    <p className="mt-1.5 text-xs text-gray-500 dark:text-gray-400">
+                      Reuse the seed of an earlier result to reproduce it
+                    </p>
+                  </div>
+                </div>
 
                 <div className="flex gap-4">
                   <button
                     type="submit"
-                    disabled={isGenerating || (currentStep === 'initial' && modelImage.length === 0) || !hasClothingUploaded()}
+                    disabled={isSubmitting || (currentStep === 'initial' && modelImage.length === 0) || !hasClothingUploaded() || slotConflicts.length > 0 || hasQualityWarnings}
                     className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-all duration-200 shadow-md hover:shadow-lg disabled:shadow-none cursor-pointer active:scale-[0.98]"
                   >
-                    {isCompressing ? 'Compressing images...' : isGenerating ? 'Generating...' : currentStep === 'initial' ? 'Generate Virtual Try-On' : 'Add Clothing & Generate'}
+                    {isCompressing ? `Compressing images... ${Math.round(compressionProgress * 100)}%` : isSubmitting ? 'Submitting...' : currentStep === 'initial' ? 'Generate Virtual Try-On' : 'Add Clothing & Generate'}
                   </button>
                   {(modelImage.length > 0 || hasClothingUploaded() || generatedImages) && (
                     <button
                       type="button"
                       onClick={handleReset}
-                      disabled={isGenerating}
+                      disabled={isSubmitting}
                       className="px-6 py-3 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg font-medium hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 cursor-pointer active:scale-[0.98]"
                     >
                       Reset
@@ -471,9 +1044,49 @@ export default function Home() {
             <div className="space-y-6 mb-6">
               <ResultGallery 
                 images={generatedImages} 
-                onImageSelect={setSelectedGeneratedImage}
+                onImageSelect={handleSelectOutput}
                 selectedImage={selectedGeneratedImage}
+                comparisonSources={comparisonSources}
+                onDownloadAll={handleDownloadAll}
               />
+              {activeStep?.kind === 'layer' && !isSubmitting && (
+                <div className="flex flex-wrap items-center justify-center gap-3">
+                  {typeof activeStep.seed === 'number' && (
+                    <span className="text-sm text-gray-600 dark:text-gray-400">
+                      Seed <span className="font-mono">{activeStep.seed}</span>
+                    </span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleRegenerate(false)}
+                    disabled={!submittedInputs[activeStep.id]}
+                    title={submittedInputs[activeStep.id] ? undefined : 'The inputs are only kept until the page is reloaded'}
+                    className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg font-medium hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 cursor-pointer active:scale-[0.98]"
+                  >
+                    Regenerate
+                  </button>
+                  {typeof activeStep.seed === 'number' && (
+                    <button
+                      type="button"
+                      onClick={() => handleRegenerate(true)}
+                      disabled={!submittedInputs[activeStep.id]}
+                      title={submittedInputs[activeStep.id] ? undefined : 'The inputs are only kept until the page is reloaded'}
+                      className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg font-medium hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 cursor-pointer active:scale-[0.98]"
+                    >
+                      Regenerate with same seed
+                    </button>
+                  )}
+                  {activeStep.predictionId && (
+                    <Link
+                      href={`/result/${activeStep.predictionId}`}
+                      target="_blank"
+                      className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg font-medium hover:bg-gray-300 dark:hover:bg-gray-600 transition-all duration-200 cursor-pointer active:scale-[0.98]"
+                    >
+                      Share link
+                    </Link>
+                  )}
+                </div>
+              )}
               {currentStep !== 'adding' && (
                 <div className="flex justify-center gap-4">
                   <button
@@ -507,13 +1120,80 @@ export default function Home() {
           )}
         </div>
 
-        {(isCompressing || isGenerating) && (
+        {(isSubmitting || isActivePending) && (
           <div className="mt-6 text-center">
-            <p className="text-gray-600 dark:text-gray-400">
-              {isCompressing 
-                ? 'Compressing images for upload...' 
-                : 'Processing your images... This may take a few minutes.'}
-            </p>
+            {isSubmitting ? (
+              <StatusDisplay
+                status={isCompressing ? 'compressing' : 'uploading'}
+                message={isCompressing ? `${Math.round(compressionProgress * 100)}%` : undefined}
+                phase={isCompressing ? 'compressing' : 'uploading'}
+              />
+            ) : (
+              <>
+                <StatusDisplay
+                  status={activeStep?.status || 'starting'}
+                  message={activeJob?.error || activeJob?.message}
+                  phase={phaseForStatus(activeStep?.status || 'starting')}
+                  timing={activeJob ?? undefined}
+                  estimate={durationEstimate}
+                />
+                <p className="mt-3 text-sm text-gray-600 dark:text-gray-400">
+                  You can start another try-on while this one runs.
+                </p>
+              </>
+            )}
+            <div className="mt-4 flex justify-center gap-4">
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="px-6 py-3 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition-all duration-200 cursor-pointer shadow-md hover:shadow-lg active:scale-[0.98]"
+              >
+                Cancel
+              </button>
+              {!isSubmitting && (
+                <button
+                  type="button"
+                  onClick={handleNewTryOn}
+                  className="px-6 py-3 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg font-medium hover:bg-gray-300 dark:hover:bg-gray-600 transition-all duration-200 cursor-pointer active:scale-[0.98]"
+                >
+                  Start another try-on
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {notices.length > 0 && (
+          <div className="fixed bottom-4 right-4 z-40 w-80 space-y-2" role="status" aria-live="polite">
+            {notices.map((notice) => (
+              <div
+                key={notice.predictionId}
+                className={`flex items-start gap-3 p-3 rounded-lg shadow-lg border text-sm ${
+                  notice.succeeded
+                    ? 'bg-green-50 dark:bg-green-900/40 border-green-200 dark:border-green-800 text-green-800 dark:text-green-200'
+                    : 'bg-red-50 dark:bg-red-900/40 border-red-200 dark:border-red-800 text-red-800 dark:text-red-200'
+                }`}
+              >
+                <p className="flex-1">{notice.message}</p>
+                {notice.stepId && outfitTree.steps[notice.stepId] && notice.stepId !== activeStepId && (
+                  <button
+                    type="button"
+                    onClick={() => showStep(notice.stepId!)}
+                    className="font-medium underline cursor-pointer"
+                  >
+                    View
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setNotices((current) => current.filter((item) => item !== notice))}
+                  className="cursor-pointer"
+                  aria-label="Dismiss notification"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
           </div>
         )}
       </div>
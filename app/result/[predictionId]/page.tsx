@@ -0,0 +1,67 @@
+import type { Metadata } from 'next';
+import { headers } from 'next/headers';
+import SharedResult from '@/components/SharedResult';
+import type { JobStatus, StatusResponse } from '@/lib/api/matchingSet';
+import { callEdgeFunction } from '@/lib/server/edgeFunction';
+import { clientKey, statusRateLimit } from '@/lib/server/rateLimit';
+
+interface ResultPageProps {
+  params: Promise<{ predictionId: string }>;
+}
+
+// Link previews are fetched by chat apps with short timeouts, so don't wait long for the backend
+const METADATA_TIMEOUT_MS = 5000;
+
+const DESCRIPTIONS: Record<JobStatus, string> = {
+  starting: 'This virtual try-on is starting.',
+  processing: 'This virtual try-on is still being generated.',
+  succeeded: 'A virtual try-on generated with the Matching Set Generator.',
+  failed: 'This virtual try-on failed.',
+  canceled: 'This virtual try-on was canceled.',
+};
+
+export async function generateMetadata({ params }: ResultPageProps): Promise<Metadata> {
+  const { predictionId } = await params;
+  const title = 'Try-On Result · Matching Set Generator';
+  // Shared links are meant for reviewers, not search engines
+  const robots = { index: false, follow: false };
+
+  try {
+    // Rendered on the server, so ask the edge function directly rather than through our own routes,
+    // but count it against the same limit as status requests so the page can't be used to bypass it
+    statusRateLimit.take(clientKey(await headers()));
+    const result = await callEdgeFunction('status', { prediction_id: predictionId }, { timeoutMs: METADATA_TIMEOUT_MS });
+    if (result.status !== 200) {
+      throw new Error(`Status request failed with ${result.status}`);
+    }
+    const { data } = result.body as StatusResponse;
+    const outputs = data.output ? ([] as string[]).concat(data.output) : [];
+    const description = DESCRIPTIONS[data.status];
+    return {
+      title,
+      description,
+      robots,
+      openGraph: {
+        title,
+        description,
+        type: 'website',
+        images: outputs.map((url, index) => ({ url, alt: `Try-on output ${index + 1}` })),
+      },
+      twitter: {
+        card: outputs.length > 0 ? 'summary_large_image' : 'summary',
+        title,
+        description,
+        images: outputs.slice(0, 1),
+      },
+    };
+  } catch (err) {
+    // The page itself reports the error; the preview just stays generic
+    console.warn(`Failed to load metadata for ${predictionId}:`, err);
+    return { title, robots };
+  }
+}
+
+export default async function ResultPage({ params }: ResultPageProps) {
+  const { predictionId } = await params;
+  return <SharedResult predictionId={predictionId} />;
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import ImageUpload from '@/components/ImageUpload';
+import {
+  listWardrobeItems,
+  createWardrobeItem,
+  deleteWardrobeItem,
+  type WardrobeCategory,
+  type WardrobeItem,
+} from '@/lib/api/wardrobe';
+import { compressForUpload } from '@/lib/utils/imageCompression';
+import { CLOTHING_SLOTS } from '@/lib/utils/clothingSlots';
+
+const inputClassName =
+  'w-full px-4 py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export default function WardrobePage() {
+  const [items, setItems] = useState<WardrobeItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState<WardrobeCategory | 'all'>('all');
+  const [image, setImage] = useState<File[]>([]);
+  const [category, setCategory] = useState<WardrobeCategory>('top');
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [color, setColor] = useState('');
+  const [brand, setBrand] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadItems = useCallback(async (filter: WardrobeCategory | 'all') => {
+    setIsLoading(true);
+    try {
+      setItems(await listWardrobeItems(filter === 'all' ? undefined : filter));
+    } catch (err) {
+      console.error('Failed to load wardrobe:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load wardrobe');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadItems(categoryFilter);
+  }, [loadItems, categoryFilter]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (image.length === 0) {
+      setError('Please select a garment image');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // Store a compressed copy so picking it later is fast
+      const compressed = await compressForUpload(image[0]);
+      const item = await createWardrobeItem(compressed, {
+        category,
+        name,
+        tags: tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+        color,
+        brand,
+      });
+      if (categoryFilter === 'all' || categoryFilter === item.category) {
+        setItems((current) => [item, ...current]);
+      }
+      setImage([]);
+      setName('');
+      setTags('');
+      setColor('');
+      setBrand('');
+    } catch (err) {
+      console.error('Failed to save wardrobe item:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save wardrobe item');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (item: WardrobeItem) => {
+    try {
+      await deleteWardrobeItem(item);
+      setItems((current) => current.filter((existing) => existing.id !== item.id));
+    } catch (err) {
+      console.error('Failed to delete wardrobe item:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete wardrobe item');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-2">
+            Wardrobe
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Save garments once and reuse them in any try-on
+          </p>
+          <Link
+            href="/"
+            className="inline-block mt-3 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Back to generator
+          </Link>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 md:p-8 space-y-8">
+          {error && (
+            <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ImageUpload
+              label="Garment Image"
+              acceptMultiple={false}
+              onFilesChange={setImage}
+              selectedFiles={image}
+              required
+            />
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="wardrobe-category" className="block text-sm font-semibold mb-2 text-gray-700 dark:text-gray-300">
+                  Category
+                </label>
+                <select
+                  id="wardrobe-category"
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value as WardrobeCategory)}
+                  className={`${inputClassName} cursor-pointer`}
+                >
+                  {CLOTHING_SLOTS.map((slot) => (
+                    <option key={slot.type} value={slot.type}>{slot.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="wardrobe-name" className="block text-sm font-semibold mb-2 text-gray-700 dark:text-gray-300">
+                  Name<span className="text-red-500 ml-1">*</span>
+                </label>
+                <input id="wardrobe-name" value={name} onChange={(e) => setName(e.target.value)} required className={inputClassName} />
+              </div>
+              <div>
+                <label htmlFor="wardrobe-tags" className="block text-sm font-semibold mb-2 text-gray-700 dark:text-gray-300">
+                  Tags
+                </label>
+                <input
+                  id="wardrobe-tags"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  placeholder="summer, linen, SKU-1234"
+                  className={inputClassName}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="wardrobe-color" className="block text-sm font-semibold mb-2 text-gray-700 dark:text-gray-300">
+                    Color
+                  </label>
+                  <input id="wardrobe-color" value={color} onChange={(e) => setColor(e.target.value)} className={inputClassName} />
+                </div>
+                <div>
+                  <label htmlFor="wardrobe-brand" className="block text-sm font-semibold mb-2 text-gray-700 dark:text-gray-300">
+                    Brand
+                  </label>
+                  <input id="wardrobe-brand" value={brand} onChange={(e) => setBrand(e.target.value)} className={inputClassName} />
+                </div>
+              </div>
+              <button
+                type="submit"
+                disabled={isSaving || image.length === 0 || !name.trim()}
+                className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-all duration-200 shadow-md hover:shadow-lg disabled:shadow-none cursor-pointer active:scale-[0.98]"
+              >
+                {isSaving ? 'Saving...' : 'Add to Wardrobe'}
+              </button>
+            </div>
+          </form>
+
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-6 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200">Items</h2>
+              <select
+                value={categoryFilter}
+                onChange={(e) => setCategoryFilter(e.target.value as WardrobeCategory | 'all')}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white cursor-pointer"
+              >
+                <option value="all">All categories</option>
+                {CLOTHING_SLOTS.map((slot) => (
+                  <option key={slot.type} value={slot.type}>{slot.type}</option>
+                ))}
+              </select>
+            </div>
+
+            {isLoading ? (
+              <p className="text-center text-gray-500 dark:text-gray-400">Loading wardrobe...</p>
+            ) : items.length === 0 ? (
+              <p className="text-center text-gray-500 dark:text-gray-400">No garments saved yet.</p>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                {items.map((item) => (
+                  <div key={item.id} className="relative group rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700">
+                    <div className="aspect-square bg-gray-100 dark:bg-gray-900">
+                      {item.image_url && <img src={item.image_url} alt={item.name} className="w-full h-full object-cover" />}
+                    </div>
+                    <div className="p-2">
+                      <p className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{item.name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {[item.category, item.brand, item.color, ...item.tags].filter(Boolean).join(' · ')}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleDelete(item)}
+                      className="absolute top-2 right-2 bg-red-500 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-all duration-200 hover:bg-red-600 hover:scale-110 active:scale-95 cursor-pointer shadow-lg"
+                      aria-label={`Delete ${item.name}`}
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { usePathname } from 'next/navigation';
+import SignInForm from '@/components/SignInForm';
+import { signOut } from '@/lib/api/auth';
+import { isAuthEnabled } from '@/lib/config';
+import { useSession } from '@/lib/hooks/useSession';
+
+// Share links are meant for reviewers without an account
+const PUBLIC_PATH_PREFIXES = ['/result/'];
+
+interface AuthGateProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Shows the sign-in form instead of the app until there is a session, and an account
+ * bar once there is. Without Supabase the app runs anonymously and this renders the page as-is.
+ */
+export default function AuthGate({ children }: AuthGateProps) {
+  const pathname = usePathname();
+  const { loading, session, userId } = useSession();
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isAuthEnabled) {
+    return <>{children}</>;
+  }
+
+  const isPublic = PUBLIC_PATH_PREFIXES.some((prefix) => pathname.startsWith(prefix));
+
+  const handleSignOut = async () => {
+    setError(null);
+    try {
+      await signOut();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+        <p className="text-gray-500 dark:text-gray-400">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!session && !isPublic) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4 bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+        <SignInForm />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {session && (
+        <div className="flex items-center justify-end gap-3 px-4 py-2 text-sm bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+          {error && <span className="text-red-600 dark:text-red-400">{error}</span>}
+          <span className="text-gray-600 dark:text-gray-400 truncate">{session.user.email || 'Signed in'}</span>
+          <button
+            type="button"
+            onClick={handleSignOut}
+            className="font-medium text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+          >
+            Sign out
+          </button>
+        </div>
+      )}
+      {/* Remount the page for another user so nothing carries over from the previous one */}
+      <Fragment key={userId ?? 'anonymous'}>{children}</Fragment>
+    </>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import StatusDisplay from '@/components/StatusDisplay';
+import ResultGallery from '@/components/ResultGallery';
+import { CLOTHING_SLOTS } from '@/lib/utils/clothingSlots';
+import type { BatchCell, BatchCellState, BatchGrid } from '@/lib/utils/batchGrid';
+
+interface BatchMatrixProps {
+  grid: BatchGrid;
+  cellStates: Record<string, BatchCellState>;
+  thumbnails: Map<File, string>;
+  onRetry: (cell: BatchCell) => void;
+}
+
+const isRetryable = (state: BatchCellState | undefined): boolean =>
+  state?.status === 'failed' || state?.status === 'canceled';
+
+export default function BatchMatrix({ grid, cellStates, thumbnails, onRetry }: BatchMatrixProps) {
+  return (
+    <div className="w-full overflow-x-auto">
+      <table className="border-separate border-spacing-3">
+        <thead>
+          <tr>
+            <th className="w-32 text-left text-xs font-semibold text-gray-500 dark:text-gray-400 align-bottom">
+              Model \ Outfit
+            </th>
+            {grid.combos.map((combo, comboIndex) => (
+              <th key={comboIndex} className="w-56 align-bottom">
+                <div className="flex gap-1 justify-center">
+                  {CLOTHING_SLOTS.filter((slot) => combo[slot.type]).map((slot) => (
+                    <img
+                      key={slot.type}
+                      src={thumbnails.get(combo[slot.type]!)}
+                      alt={slot.type}
+                      title={`${slot.type}: ${combo[slot.type]!.name}`}
+                      className="w-12 h-12 object-cover rounded-md bg-gray-100 dark:bg-gray-900"
+                    />
+                  ))}
+                </div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {grid.models.map((model, modelIndex) => (
+            <tr key={modelIndex}>
+              <th className="align-top">
+                <img
+                  src={thumbnails.get(model)}
+                  alt={model.name}
+                  title={model.name}
+                  className="w-24 h-32 object-cover rounded-md bg-gray-100 dark:bg-gray-900"
+                />
+              </th>
+              {grid.combos.map((_, comboIndex) => {
+                const cell = grid.cells.find((candidate) => candidate.modelIndex === modelIndex && candidate.comboIndex === comboIndex)!;
+                const state = cellStates[cell.id];
+                return (
+                  <td key={cell.id} className="align-top p-3 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+                    {state && <StatusDisplay status={state.status} />}
+                    {state?.error && <p className="text-xs text-red-600 dark:text-red-400">{state.error}</p>}
+                    {state && state.outputs.length > 0 && <ResultGallery images={state.outputs} compact />}
+                    {isRetryable(state) && (
+                      <button
+                        type="button"
+                        onClick={() => onRetry(cell)}
+                        className="w-full px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-all duration-200 cursor-pointer active:scale-[0.98]"
+                      >
+                        Retry
+                      </button>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import type { ClassifiedError, ErrorCategory } from '@/lib/utils/errorClassification';
+
+interface ErrorPanelProps {
+  error: ClassifiedError;
+  /** Shown as a Retry button when the error is retryable */
+  onRetry?: () => void;
+  retryDisabled?: boolean;
+}
+
+// Problems the user can fix themselves are a warning rather than a failure
+const CATEGORY_STYLES: Record<ErrorCategory, { box: string; title: string; text: string }> = {
+  input: {
+    box: 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800',
+    title: 'text-amber-900 dark:text-amber-100',
+    text: 'text-amber-800 dark:text-amber-200',
+  },
+  overloaded: {
+    box: 'bg-orange-50 dark:bg-orange-900/20 border-orange-200 dark:border-orange-800',
+    title: 'text-orange-900 dark:text-orange-100',
+    text: 'text-orange-800 dark:text-orange-200',
+  },
+  model: {
+    box: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800',
+    title: 'text-red-900 dark:text-red-100',
+    text: 'text-red-800 dark:text-red-200',
+  },
+  network: {
+    box: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800',
+    title: 'text-red-900 dark:text-red-100',
+    text: 'text-red-800 dark:text-red-200',
+  },
+  config: {
+    box: 'bg-gray-50 dark:bg-gray-900/40 border-gray-300 dark:border-gray-600',
+    title: 'text-gray-900 dark:text-gray-100',
+    text: 'text-gray-700 dark:text-gray-300',
+  },
+};
+
+export default function ErrorPanel({ error, onRetry, retryDisabled = false }: ErrorPanelProps) {
+  const styles = CATEGORY_STYLES[error.category];
+
+  return (
+    <div role="alert" className={`p-4 border rounded-lg ${styles.box}`}>
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0 flex-1 space-y-1">
+          <p className={`font-semibold ${styles.title}`}>{error.title}</p>
+          <p className={`text-sm ${styles.text}`}>{error.detail}</p>
+          <p className={`text-sm ${styles.text}`}>
+            {error.explanation} {error.suggestion}
+          </p>
+        </div>
+        {error.retryable && onRetry && (
+          <button
+            type="button"
+            onClick={onRetry}
+            disabled={retryDisabled}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-all duration-200 cursor-pointer active:scale-[0.98]"
+          >
+            Retry
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useRef, useState } from 'react';
+
+export type ComparisonMode = 'wipe' | 'side-by-side' | 'onion-skin';
+
+export interface ComparisonSource {
+  label: string;
+  url: string;
+}
+
+interface ImageComparisonProps {
+  mode: ComparisonMode;
+  before: ComparisonSource;
+  after: string;
+}
+
+const clampPercent = (value: number) => Math.min(100, Math.max(0, value));
+
+export default function ImageComparison({ mode, before, after }: ImageComparisonProps) {
+  const [wipePosition, setWipePosition] = useState(50);
+  const [opacity, setOpacity] = useState(50);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isDraggingRef = useRef(false);
+
+  const moveWipe = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setWipePosition(clampPercent(((clientX - rect.left) / rect.width) * 100));
+  };
+
+  const handleWipeKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') setWipePosition((position) => clampPercent(position - 5));
+    if (e.key === 'ArrowRight') setWipePosition((position) => clampPercent(position + 5));
+  };
+
+  if (mode === 'side-by-side') {
+    return (
+      <div className="grid grid-cols-2 gap-2">
+        {[{ label: before.label, url: before.url }, { label: 'Result', url: after }].map((image) => (
+          <figure key={image.label} className="flex flex-col items-center gap-1">
+            <img src={image.url} alt={image.label} className="max-w-full max-h-[75vh] object-contain rounded-lg" />
+            <figcaption className="text-xs font-medium text-white">{image.label}</figcaption>
+          </figure>
+        ))}
+      </div>
+    );
+  }
+
+  if (mode === 'onion-skin') {
+    return (
+      <div className="flex flex-col items-center gap-3">
+        <div className="relative">
+          <img src={after} alt="Result" className="max-w-full max-h-[75vh] object-contain rounded-lg" />
+          <img
+            src={before.url}
+            alt={before.label}
+            style={{ opacity: opacity / 100 }}
+            className="absolute inset-0 w-full h-full object-contain rounded-lg"
+          />
+        </div>
+        <label className="flex items-center gap-3 text-xs font-medium text-white">
+          Result
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={opacity}
+            onChange={(e) => setOpacity(parseInt(e.target.value))}
+            className="w-48 cursor-pointer"
+            aria-label={`${before.label} opacity`}
+          />
+          {before.label}
+        </label>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative select-none touch-none cursor-ew-resize"
+      onPointerDown={(e) => {
+        isDraggingRef.current = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        moveWipe(e.clientX);
+      }}
+      onPointerMove={(e) => {
+        if (isDraggingRef.current) moveWipe(e.clientX);
+      }}
+      onPointerUp={() => {
+        isDraggingRef.current = false;
+      }}
+      onPointerCancel={() => {
+        isDraggingRef.current = false;
+      }}
+    >
+      <img src={after} alt="Result" draggable={false} className="max-w-full max-h-[75vh] object-contain rounded-lg" />
+      {/* The input is clipped to the left of the handle so the result shows through on the right */}
+      <img
+        src={before.url}
+        alt={before.label}
+        draggable={false}
+        style={{ clipPath: `inset(0 ${100 - wipePosition}% 0 0)` }}
+        className="absolute inset-0 w-full h-full object-contain rounded-lg"
+      />
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label={`Compare ${before.label} with result`}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(wipePosition)}
+        onKeyDown={handleWipeKeyDown}
+        style={{ left: `${wipePosition}%` }}
+        className="absolute inset-y-0 -ml-0.5 w-1 bg-white shadow-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white shadow-lg flex items-center justify-center">
+          <svg className="w-5 h-5 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7l-4 5 4 5M16 7l4 5-4 5" />
+          </svg>
+        </div>
+      </div>
+      <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/60 text-xs font-medium text-white">{before.label}</span>
+      <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-black/60 text-xs font-medium text-white">Result</span>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { applyImageEdit, FULL_CROP, type CropRect, type Rotation } from '@/lib/utils/imageTransform';
+
+interface ImageEditorProps {
+  file: File;
+  onApply: (file: File) => void;
+  onCancel: () => void;
+}
+
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+
+interface DragState {
+  mode: 'move' | Corner;
+  startX: number;
+  startY: number;
+  startCrop: CropRect;
+}
+
+const ASPECT_RATIOS: { label: string; value: number | null }[] = [
+  { label: 'Free', value: null },
+  { label: '1:1', value: 1 },
+  { label: '3:4', value: 3 / 4 },
+  { label: '4:5', value: 4 / 5 },
+  { label: '2:3', value: 2 / 3 },
+];
+
+const PREVIEW_SIZE = 1000;
+const MIN_CROP = 0.05;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Largest centred crop with the given height-to-width ratio in crop fractions
+ */
+function fitCrop(heightPerWidth: number): CropRect {
+  const width = heightPerWidth > 1 ? 1 / heightPerWidth : 1;
+  const height = width * heightPerWidth;
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+}
+
+/**
+ * Resize the crop by dragging one corner while the opposite corner stays put
+ */
+function resizeCrop(start: CropRect, corner: Corner, dx: number, dy: number, heightPerWidth: number | null): CropRect {
+  const east = corner === 'ne' || corner === 'se';
+  const south = corner === 'sw' || corner === 'se';
+  const anchorX = east ? start.x : start.x + start.width;
+  const anchorY = south ? start.y : start.y + start.height;
+  const maxWidth = east ? 1 - anchorX : anchorX;
+  const maxHeight = south ? 1 - anchorY : anchorY;
+
+  let width = clamp((east ? 1 : -1) * ((east ? start.x + start.width : start.x) + dx - anchorX), MIN_CROP, maxWidth);
+  let height = clamp((south ? 1 : -1) * ((south ? start.y + start.height : start.y) + dy - anchorY), MIN_CROP, maxHeight);
+  if (heightPerWidth) {
+    height = width * heightPerWidth;
+    if (height > maxHeight) {
+      height = maxHeight;
+      width = height / heightPerWidth;
+    }
+  }
+
+  return {
+    x: east ? anchorX : anchorX - width,
+    y: south ? anchorY : anchorY - height,
+    width,
+    height,
+  };
+}
+
+export default function ImageEditor({ file, onApply, onCancel }: ImageEditorProps) {
+  const [rotation, setRotation] = useState<Rotation>(0);
+  const [flipHorizontal, setFlipHorizontal] = useState(false);
+  const [flipVertical, setFlipVertical] = useState(false);
+  const [crop, setCrop] = useState<CropRect>(FULL_CROP);
+  const [aspect, setAspect] = useState<number | null>(null);
+  const [preview, setPreview] = useState<{ url: string; width: number; height: number } | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const previewUrlRef = useRef<string | null>(null);
+
+  // Render the rotated and flipped image at preview size; the crop is drawn on top of it
+  useEffect(() => {
+    let cancelled = false;
+    applyImageEdit(file, { rotation, flipHorizontal, flipVertical, crop: FULL_CROP }, PREVIEW_SIZE)
+      .then(async (rendered) => {
+        const bitmap = await createImageBitmap(rendered);
+        const size = { width: bitmap.width, height: bitmap.height };
+        bitmap.close();
+        if (cancelled) return;
+        // The previous preview stays on screen until this one is ready
+        if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
+        previewUrlRef.current = URL.createObjectURL(rendered);
+        setPreview({ url: previewUrlRef.current, ...size });
+      })
+      .catch((err) => {
+        console.error('Failed to render preview:', err);
+        if (!cancelled) setError('Failed to load the image for editing');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, rotation, flipHorizontal, flipVertical]);
+
+  useEffect(() => {
+    const previewUrl = previewUrlRef;
+    return () => {
+      if (previewUrl.current) URL.revokeObjectURL(previewUrl.current);
+    };
+  }, []);
+
+  // Crop height per crop width that gives the chosen pixel aspect ratio
+  const heightPerWidth = (ratio: number | null) =>
+    ratio && preview ? preview.width / (preview.height * ratio) : null;
+
+  const handleAspectChange = (ratio: number | null) => {
+    setAspect(ratio);
+    const fraction = heightPerWidth(ratio);
+    setCrop(fraction ? fitCrop(fraction) : FULL_CROP);
+  };
+
+  const handleRotate = () => {
+    setRotation((current) => ((current + 90) % 360) as Rotation);
+    // The crop refers to the old orientation, so start over
+    setCrop(FULL_CROP);
+    setAspect(null);
+  };
+
+  const handleReset = () => {
+    setRotation(0);
+    setFlipHorizontal(false);
+    setFlipVertical(false);
+    setCrop(FULL_CROP);
+    setAspect(null);
+  };
+
+  const startDrag = (mode: DragState['mode']) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, startCrop: crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!drag || !rect || rect.width === 0 || rect.height === 0) return;
+
+    const dx = (e.clientX - drag.startX) / rect.width;
+    const dy = (e.clientY - drag.startY) / rect.height;
+    if (drag.mode === 'move') {
+      setCrop({
+        ...drag.startCrop,
+        x: clamp(drag.startCrop.x + dx, 0, 1 - drag.startCrop.width),
+        y: clamp(drag.startCrop.y + dy, 0, 1 - drag.startCrop.height),
+      });
+    } else {
+      setCrop(resizeCrop(drag.startCrop, drag.mode, dx, dy, heightPerWidth(aspect)));
+    }
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setError(null);
+    try {
+      onApply(await applyImageEdit(file, { rotation, flipHorizontal, flipVertical, crop }));
+    } catch (err) {
+      console.error('Failed to edit image:', err);
+      setError(err instanceof Error ? err.message : 'Failed to edit image');
+      setIsApplying(false);
+    }
+  };
+
+  const toolButtonClassName =
+    'px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-all duration-200 cursor-pointer';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onCancel}>
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-3xl max-h-[95vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex flex-wrap items-center gap-2 p-4 border-b border-gray-200 dark:border-gray-700">
+          <button type="button" onClick={handleRotate} className={toolButtonClassName}>
+            Rotate 90°
+          </button>
+          <button
+            type="button"
+            onClick={() => setFlipHorizontal((current) => !current)}
+            className={toolButtonClassName}
+            aria-pressed={flipHorizontal}
+          >
+            Flip horizontal
+          </button>
+          <button
+            type="button"
+            onClick={() => setFlipVertical((current) => !current)}
+            className={toolButtonClassName}
+            aria-pressed={flipVertical}
+          >
+            Flip vertical
+          </button>
+          <div className="flex gap-1 ml-auto" role="group" aria-label="Crop aspect ratio">
+            {ASPECT_RATIOS.map((ratio) => (
+              <button
+                key={ratio.label}
+                type="button"
+                onClick={() => handleAspectChange(ratio.value)}
+                className={`px-2.5 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 cursor-pointer ${
+                  aspect === ratio.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 dark:bg-gray-900 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                }`}
+              >
+                {ratio.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-auto p-4 flex items-center justify-center bg-gray-100 dark:bg-gray-900">
+          {preview ? (
+            <div
+              ref={containerRef}
+              className="relative overflow-hidden select-none touch-none"
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => {
+                dragRef.current = null;
+              }}
+              onPointerCancel={() => {
+                dragRef.current = null;
+              }}
+            >
+              <img src={preview.url} alt={file.name} draggable={false} className="block max-w-full max-h-[60vh]" />
+              <div
+                className="absolute border-2 border-white cursor-move"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+                }}
+                onPointerDown={startDrag('move')}
+              >
+                {(['nw', 'ne', 'sw', 'se'] as Corner[]).map((corner) => (
+                  <div
+                    key={corner}
+                    onPointerDown={startDrag(corner)}
+                    className={`absolute w-4 h-4 bg-white rounded-sm shadow ${
+                      corner[0] === 'n' ? 'top-0' : 'bottom-0'
+                    } ${corner[1] === 'w' ? 'left-0' : 'right-0'} ${
+                      corner === 'nw' || corner === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'
+                    }`}
+                  />
+                ))}
+              </div>
+            </div>
+          ) : (
+            !error && <p className="text-sm text-gray-500 dark:text-gray-400">Loading image...</p>
+          )}
+        </div>
+
+        {error && <p className="px-4 pt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-200 dark:border-gray-700">
+          <button type="button" onClick={handleReset} className={`${toolButtonClassName} mr-auto`}>
+            Reset
+          </button>
+          <button type="button" onClick={onCancel} className={toolButtonClassName}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={isApplying || !preview}
+            className="px-4 py-1.5 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-all duration-200 cursor-pointer"
+          >
+            {isApplying ? 'Applying...' : 'Apply'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,16 @@
 'use client';
 
-import { useRef, useState, useCallback, useEffect, useMemo } from 'react';
+import { useRef, useState, useCallback, useEffect, useEffectEvent, useMemo } from 'react';
+import ImageEditor from '@/components/ImageEditor';
+import { normalizeOrientation } from '@/lib/utils/imageTransform';
+import { convertToStandardFormat, IMAGE_ACCEPT, isImageFile } from '@/lib/utils/imageDecoding';
+import {
+  analyzeImage,
+  checkUploads,
+  QUALITY_PROFILES,
+  type ImageAnalysis,
+  type QualityProfileName,
+} from '@/lib/utils/imageQuality';
 
 interface ImageUploadProps {
   label: string;
@@ -10,8 +20,16 @@ interface ImageUploadProps {
   selectedFiles: File[];
   required?: boolean;
   showCompressionNote?: boolean;
+  /** Run pre-flight quality checks with these thresholds and show warnings inline */
+  qualityProfile?: QualityProfileName;
+  /** Other uploads in the form, only used to flag near-duplicates */
+  compareWith?: File[];
+  /** Called with true while there are quality warnings the user has not overridden */
+  onQualityBlockingChange?: (blocking: boolean) => void;
 }
 
+const NO_FILES: File[] = [];
+
 export default function ImageUpload({
   label,
   acceptMultiple = false,
@@ -20,13 +38,25 @@ export default function ImageUpload({
   selectedFiles,
   required = false,
   showCompressionNote = false,
+  qualityProfile,
+  compareWith = NO_FILES,
+  onQualityBlockingChange,
 }: ImageUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [isConverting, setIsConverting] = useState(false);
+  const [analyses, setAnalyses] = useState<Map<File, ImageAnalysis>>(() => new Map());
+  const [acknowledgedWarnings, setAcknowledgedWarnings] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Conversions can take a while; files added or removed meanwhile must not be overwritten
+  const selectedFilesRef = useRef(selectedFiles);
+  useEffect(() => {
+    selectedFilesRef.current = selectedFiles;
+  }, [selectedFiles]);
 
   const validateFile = (file: File): string | null => {
-    if (!file.type.startsWith('image/')) {
+    if (!isImageFile(file)) {
       return `${file.name} is not an image file`;
     }
     // No size validation - images will be compressed before sending
@@ -51,13 +81,35 @@ export default function ImageUpload({
         return;
       }
 
-      if (acceptMultiple) {
-        onFilesChange([...selectedFiles, ...fileArray]);
-      } else {
-        onFilesChange(fileArray);
-      }
+      // HEIC, TIFF etc. become JPEG, and phone photos stored sideways with an EXIF
+      // rotation are made upright
+      setIsConverting(true);
+      Promise.allSettled(
+        fileArray.map((file) => convertToStandardFormat(file).then(normalizeOrientation))
+      ).then((results) => {
+        setIsConverting(false);
+        const converted: File[] = [];
+        const failures: string[] = [];
+        results.forEach((result, index) => {
+          if (result.status === 'fulfilled') {
+            converted.push(result.value);
+          } else {
+            failures.push(
+              result.reason instanceof Error ? result.reason.message : `Failed to load ${fileArray[index].name}`
+            );
+          }
+        });
+
+        if (failures.length > 0) setError(failures.join(' '));
+        if (converted.length === 0) return;
+        if (acceptMultiple) {
+          onFilesChange([...selectedFilesRef.current, ...converted]);
+        } else {
+          onFilesChange(converted);
+        }
+      });
     },
-    [acceptMultiple, onFilesChange, selectedFiles]
+    [acceptMultiple, onFilesChange]
   );
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -97,6 +149,64 @@ export default function ImageUpload({
     }
   };
 
+  const handleEditApply = (edited: File) => {
+    if (editingIndex === null) return;
+    onFilesChange(selectedFiles.map((file, i) => (i === editingIndex ? edited : file)));
+    setEditingIndex(null);
+  };
+
+  // Analyse new uploads (and the uploads they are compared with) in the background
+  useEffect(() => {
+    if (!qualityProfile) return;
+    const relevant = [...selectedFiles, ...compareWith];
+    const missing = relevant.filter((file) => !analyses.has(file));
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    Promise.allSettled(missing.map(analyzeImage)).then((results) => {
+      // Images that cannot be decoded are skipped; compression reports the problem on submit
+      if (cancelled || results.every((result) => result.status === 'rejected')) return;
+      setAnalyses((current) => {
+        const next = new Map([...current].filter(([file]) => relevant.includes(file)));
+        results.forEach((result, index) => {
+          if (result.status === 'fulfilled') next.set(missing[index], result.value);
+        });
+        return next;
+      });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [qualityProfile, selectedFiles, compareWith, analyses]);
+
+  const qualityWarnings = useMemo(() => {
+    if (!qualityProfile) return [];
+    const analyzed = selectedFiles.filter((file) => analyses.has(file));
+    const issues = checkUploads(
+      analyzed.map((file) => analyses.get(file)!),
+      compareWith.flatMap((file) => analyses.get(file) ?? []),
+      QUALITY_PROFILES[qualityProfile]
+    );
+    return analyzed
+      .map((file, index) => ({ file, issues: issues[index] }))
+      .filter((warning) => warning.issues.length > 0);
+  }, [qualityProfile, selectedFiles, compareWith, analyses]);
+
+  // Overriding applies to the warnings shown at the time; new warnings need a new override
+  const warningsKey = qualityWarnings
+    .map(({ file, issues }) => `${file.name}:${issues.map((issue) => issue.kind).join(',')}`)
+    .join('|');
+  const isQualityBlocking = qualityWarnings.length > 0 && acknowledgedWarnings !== warningsKey;
+
+  const reportQualityBlocking = useEffectEvent((blocking: boolean) => {
+    onQualityBlockingChange?.(blocking);
+  });
+
+  useEffect(() => {
+    reportQualityBlocking(isQualityBlocking);
+    return () => reportQualityBlocking(false);
+  }, [isQualityBlocking]);
+
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return bytes + ' B';
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
@@ -184,7 +294,7 @@ export default function ImageUpload({
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/*"
+        accept={IMAGE_ACCEPT}
         multiple={acceptMultiple}
         onChange={handleFileInput}
         className="hidden"
@@ -255,6 +365,19 @@ export default function ImageUpload({
             <div className="absolute inset-0 bg-blue-500 opacity-0 group-hover:opacity-5 transition-opacity duration-200 pointer-events-none z-0" />
           </div>
           <div className="absolute top-2 right-2 flex gap-2 z-20">
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setEditingIndex(0);
+              }}
+              className="bg-gray-700 text-white rounded-full p-2 opacity-0 group-hover:opacity-100 transition-all duration-200 hover:bg-gray-800 hover:scale-110 active:scale-95 shadow-lg cursor-pointer"
+              aria-label="Crop and rotate image"
+              title="Crop and rotate image"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 2v14a2 2 0 002 2h14M2 6h14a2 2 0 012 2v14" />
+              </svg>
+            </button>
             <button
               onClick={(e) => {
                 e.stopPropagation();
@@ -344,10 +467,38 @@ export default function ImageUpload({
         </div>
       )}
 
+      {isConverting && (
+        <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">Converting images...</p>
+      )}
+
       {error && (
         <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>
       )}
 
+      {qualityWarnings.length > 0 && (
+        <div className="mt-2 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+          <ul className="space-y-1 text-sm text-amber-800 dark:text-amber-200">
+            {qualityWarnings.flatMap(({ file, issues }, fileIndex) =>
+              issues.map((issue) => (
+                <li key={`${fileIndex}-${issue.kind}`}>
+                  {selectedFiles.length > 1 && <span className="font-medium">{file.name}: </span>}
+                  {issue.message}
+                </li>
+              ))
+            )}
+          </ul>
+          <label className="mt-2 flex items-center gap-2 text-sm text-amber-900 dark:text-amber-100 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!isQualityBlocking}
+              onChange={(e) => setAcknowledgedWarnings(e.target.checked ? warningsKey : null)}
+              className="cursor-pointer"
+            />
+            Use anyway
+          </label>
+        </div>
+      )}
+
       {/* Show additional files if multiple upload is enabled and more than one file is selected */}
       {acceptMultiple && selectedFiles.length > 1 && (
         <div className="mt-4 grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
@@ -360,6 +511,18 @@ export default function ImageUpload({
                   className="w-full h-full object-cover"
                 />
               </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setEditingIndex(index + 1);
+                }}
+                className="absolute top-2 left-2 bg-gray-700 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-all duration-200 hover:bg-gray-800 hover:scale-110 active:scale-95 cursor-pointer shadow-lg"
+                aria-label="Crop and rotate image"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 2v14a2 2 0 002 2h14M2 6h14a2 2 0 012 2v14" />
+                </svg>
+              </button>
               <button
                 onClick={(e) => {
                   e.stopPropagation();
@@ -382,6 +545,14 @@ export default function ImageUpload({
           ))}
         </div>
       )}
+
+      {editingIndex !== null && selectedFiles[editingIndex] && (
+        <ImageEditor
+          file={selectedFiles[editingIndex]}
+          onApply={handleEditApply}
+          onCancel={() => setEditingIndex(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import StatusDisplay from '@/components/StatusDisplay';
+import type { QueuedJob } from '@/lib/api/jobQueue';
+
+interface JobQueuePanelProps {
+  jobs: QueuedJob[];
+  /** Prediction id of the job shown in the main view */
+  activePredictionId: string | null;
+  onView: (job: QueuedJob) => void;
+  onCancel: (job: QueuedJob) => void;
+  onDismiss: (job: QueuedJob) => void;
+  onClearFinished: () => void;
+}
+
+export default function JobQueuePanel({
+  jobs,
+  activePredictionId,
+  onView,
+  onCancel,
+  onDismiss,
+  onClearFinished,
+}: JobQueuePanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const runningCount = jobs.filter((job) => job.finishedAt === null).length;
+  const hasFinished = runningCount < jobs.length;
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg">
+      <div className="flex items-center justify-between gap-2 p-3">
+        <button
+          type="button"
+          onClick={() => setIsOpen((open) => !open)}
+          aria-expanded={isOpen}
+          className="flex items-center gap-2 text-sm font-semibold text-gray-700 dark:text-gray-300 cursor-pointer"
+        >
+          <svg
+            className={`w-4 h-4 transition-transform duration-200 ${isOpen ? 'rotate-90' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+          Jobs
+          <span className="font-normal text-gray-500 dark:text-gray-400">
+            {runningCount > 0 ? `${runningCount} running · ${jobs.length} total` : `${jobs.length} finished`}
+          </span>
+        </button>
+        {hasFinished && (
+          <button
+            type="button"
+            onClick={onClearFinished}
+            className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+          >
+            Clear finished
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <ul className="border-t border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700 max-h-80 overflow-y-auto">
+          {jobs.map((job) => {
+            const isActive = job.predictionId === activePredictionId;
+            const isRunning = job.finishedAt === null;
+            return (
+              <li
+                key={job.predictionId}
+                className={`flex items-center gap-3 p-3 ${isActive ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+              >
+                {job.outputs[0] || job.thumbnail ? (
+                  <img
+                    src={job.outputs[0] || job.thumbnail!}
+                    alt={job.label}
+                    className="w-12 h-12 object-cover rounded-md bg-gray-100 dark:bg-gray-900 shrink-0"
+                  />
+                ) : (
+                  <div className="w-12 h-12 rounded-md bg-gray-100 dark:bg-gray-900 shrink-0" />
+                )}
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{job.label}</p>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <StatusDisplay status={job.status || 'starting'} />
+                    {job.error && (
+                      <span className="text-xs text-red-600 dark:text-red-400 truncate" title={job.error}>
+                        {job.error}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {!isActive && (
+                    <button
+                      type="button"
+                      onClick={() => onView(job)}
+                      className="px-3 py-1.5 text-xs bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg font-medium hover:bg-gray-300 dark:hover:bg-gray-600 transition-all duration-200 cursor-pointer"
+                    >
+                      View
+                    </button>
+                  )}
+                  {isRunning ? (
+                    <button
+                      type="button"
+                      onClick={() => onCancel(job)}
+                      className="px-3 py-1.5 text-xs bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition-all duration-200 cursor-pointer"
+                    >
+                      Cancel
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => onDismiss(job)}
+                      className="px-3 py-1.5 text-xs bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg font-medium hover:bg-gray-300 dark:hover:bg-gray-600 transition-all duration-200 cursor-pointer"
+                      aria-label={`Dismiss ${job.label}`}
+                    >
+                      Dismiss
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
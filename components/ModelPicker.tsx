@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from 'react';
+import { listSavedModels, fetchSavedModelFile, type SavedModel } from '@/lib/api/modelLibrary';
+
+interface ModelPickerProps {
+  onSelect: (file: File) => void;
+  disabled?: boolean;
+}
+
+const describeModel = (model: SavedModel): string =>
+  [model.body_type, model.pose, model.skin_tone, ...model.tags].filter(Boolean).join(' · ');
+
+export default function ModelPicker({ onSelect, disabled = false }: ModelPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [models, setModels] = useState<SavedModel[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadingModelId, setLoadingModelId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const openPicker = async () => {
+    setIsOpen(true);
+    setIsLoading(true);
+    setError(null);
+    try {
+      setModels(await listSavedModels());
+    } catch (err) {
+      console.error('Failed to load saved models:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load saved models');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSelect = async (model: SavedModel) => {
+    setLoadingModelId(model.id);
+    setError(null);
+    try {
+      onSelect(await fetchSavedModelFile(model));
+      setIsOpen(false);
+    } catch (err) {
+      console.error('Failed to load saved model:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load saved model');
+    } finally {
+      setLoadingModelId(null);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleModels = query
+    ? models.filter((model) => `${model.name} ${describeModel(model)}`.toLowerCase().includes(query))
+    : models;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={openPicker}
+        disabled={disabled}
+        className="mt-2 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+      >
+        Choose a saved model
+      </button>
+
+      {isOpen && (
+        <div
+          className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4"
+          onClick={() => setIsOpen(false)}
+        >
+          <div
+            className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between gap-4 p-4 border-b border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200">Saved Models</h3>
+              <button
+                type="button"
+                onClick={() => setIsOpen(false)}
+                className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-all duration-200 cursor-pointer"
+                aria-label="Close"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="p-4 space-y-4 overflow-y-auto">
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by name, body type, pose or skin tone"
+                className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+
+              {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+              {isLoading ? (
+                <p className="text-center text-sm text-gray-500 dark:text-gray-400">Loading saved models...</p>
+              ) : visibleModels.length === 0 ? (
+                <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+                  {models.length === 0 ? 'No saved models yet.' : 'No models match your search.'}
+                </p>
+              ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                  {visibleModels.map((model) => (
+                    <button
+                      key={model.id}
+                      type="button"
+                      onClick={() => handleSelect(model)}
+                      disabled={loadingModelId !== null}
+                      className="text-left rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700 hover:border-blue-400 dark:hover:border-blue-500 hover:shadow-md disabled:opacity-50 transition-all duration-200 cursor-pointer"
+                    >
+                      <div className="aspect-[3/4] bg-gray-100 dark:bg-gray-900">
+                        {model.image_url && (
+                          <img src={model.image_url} alt={model.name} className="w-full h-full object-cover" />
+                        )}
+                      </div>
+                      <div className="p-2">
+                        <p className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">
+                          {loadingModelId === model.id ? 'Loading...' : model.name}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{describeModel(model)}</p>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { getChildren, getPath, getStepResult, type OutfitStep, type OutfitTree } from '@/lib/utils/outfitTree';
+import type { ClothingType } from '@/lib/utils/clothingSlots';
+
+interface OutfitTimelineProps {
+  tree: OutfitTree;
+  activeStepId: string | null;
+  onSelectStep: (stepId: string) => void;
+  onUndo: () => void;
+  disabled?: boolean;
+}
+
+const stepLabel = (step: OutfitStep): string => {
+  if (step.kind === 'base') return 'Base model';
+  const garments = Object.keys(step.garments) as ClothingType[];
+  return garments.length > 0 ? garments.map((type) => `+${type}`).join(' ') : 'Generated';
+};
+
+export default function OutfitTimeline({ tree, activeStepId, onSelectStep, onUndo, disabled = false }: OutfitTimelineProps) {
+  const path = getPath(tree, activeStepId);
+
+  if (path.length === 0) {
+    return null;
+  }
+
+  const activeStep = path[path.length - 1];
+  // Branches that continue from the active step (kept when jumping back to an earlier step)
+  const forwardBranches = getChildren(tree, activeStep.id);
+
+  const renderBranchChip = (step: OutfitStep) => (
+    <button
+      key={step.id}
+      type="button"
+      onClick={() => onSelectStep(step.id)}
+      disabled={disabled}
+      className="px-2 py-0.5 text-xs rounded-full border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:border-blue-400 hover:text-blue-600 dark:hover:text-blue-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 cursor-pointer"
+      title="Switch to this branch"
+    >
+      {stepLabel(step)}
+    </button>
+  );
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Outfit Timeline</h3>
+        <button
+          type="button"
+          onClick={onUndo}
+          disabled={disabled || activeStep.parentId === null}
+          className="px-3 py-1.5 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg font-medium hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 cursor-pointer active:scale-[0.98]"
+        >
+          Undo last layer
+        </button>
+      </div>
+
+      <ol className="flex gap-3 overflow-x-auto pb-2">
+        {path.map((step, index) => {
+          const isActive = step.id === activeStep.id;
+          const result = getStepResult(step);
+          const garmentThumbnails = Object.values(step.garments);
+          const alternatives = getChildren(tree, step.parentId).filter((sibling) => sibling.id !== step.id);
+
+          return (
+            <li key={step.id} className="flex items-start gap-3 shrink-0">
+              {index > 0 && (
+                <svg className="w-4 h-4 mt-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              )}
+              <div className="space-y-1">
+                <button
+                  type="button"
+                  onClick={() => onSelectStep(step.id)}
+                  disabled={disabled}
+                  className={`block w-28 rounded-lg overflow-hidden border-2 bg-gray-100 dark:bg-gray-900 transition-all duration-200 cursor-pointer disabled:cursor-not-allowed ${
+                    isActive
+                      ? 'border-blue-500 dark:border-blue-400'
+                      : 'border-gray-200 dark:border-gray-700 hover:border-blue-300 dark:hover:border-blue-600'
+                  }`}
+                  title={isActive ? 'Current step' : 'Branch from this step'}
+                >
+                  <div className="relative aspect-[3/4]">
+                    {result ? (
+                      <img src={result} alt={stepLabel(step)} className="w-full h-full object-cover" />
+                    ) : (
+                      <div className="flex items-center justify-center w-full h-full text-xs text-gray-400 dark:text-gray-500">
+                        {step.status || 'Pending'}
+                      </div>
+                    )}
+                    {garmentThumbnails.length > 0 && (
+                      <div className="absolute bottom-1 left-1 flex gap-1">
+                        {garmentThumbnails.map((thumbnail, garmentIndex) => (
+                          <img
+                            key={garmentIndex}
+                            src={thumbnail}
+                            alt="Garment input"
+                            className="w-7 h-7 object-cover rounded border border-white dark:border-gray-800 bg-white"
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="px-2 py-1 text-xs font-medium text-gray-700 dark:text-gray-300 truncate">
+                    {stepLabel(step)}
+                  </div>
+                </button>
+                {alternatives.length > 0 && (
+                  <div className="flex flex-wrap gap-1 w-28">
+                    {alternatives.map(renderBranchChip)}
+                  </div>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {forwardBranches.length > 0 && (
+        <div className="mt-2 flex flex-wrap items-center gap-1">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Continue with:</span>
+          {forwardBranches.map(renderBranchChip)}
+        </div>
+      )}
+    </div>
+  );
+}
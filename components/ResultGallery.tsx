@@ -1,15 +1,31 @@
 'use client';
 
 import { useState } from 'react';
+import ImageComparison, { type ComparisonMode, type ComparisonSource } from '@/components/ImageComparison';
+import { saveBlob } from '@/lib/utils/resultArchive';
 
 interface ResultGalleryProps {
   images: string | string[];
   onImageSelect?: (imageUrl: string | null) => void;
   selectedImage?: string | null;
+  compact?: boolean; // Single column without a heading, e.g. inside a batch matrix cell
+  comparisonSources?: ComparisonSource[]; // Inputs the full-size view can compare the output against
+  onDownloadAll?: () => Promise<void>; // Builds and saves a ZIP of every output with its inputs
 }
 
-export default function ResultGallery({ images, onImageSelect, selectedImage: externalSelectedImage }: ResultGalleryProps) {
+const COMPARISON_MODES: { mode: ComparisonMode | null; label: string }[] = [
+  { mode: null, label: 'Result' },
+  { mode: 'wipe', label: 'Wipe' },
+  { mode: 'side-by-side', label: 'Side by side' },
+  { mode: 'onion-skin', label: 'Onion skin' },
+];
+
+export default function ResultGallery({ images, onImageSelect, selectedImage: externalSelectedImage, compact = false, comparisonSources = [], onDownloadAll }: ResultGalleryProps) {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode | null>(null);
+  const [comparisonIndex, setComparisonIndex] = useState(0);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [archiveError, setArchiveError] = useState<string | null>(null);
   const imageArray = Array.isArray(images) ? images : [images];
   
   // Use external selected image if provided, otherwise use internal state
@@ -33,27 +49,49 @@ export default function ResultGallery({ images, onImageSelect, selectedImage: ex
     try {
       const response = await fetch(url);
       const blob = await response.blob();
-      const blobUrl = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = blobUrl;
-      link.download = `matching-set-${index + 1}.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(blobUrl);
+      saveBlob(blob, `matching-set-${index + 1}.png`);
     } catch (error) {
       console.error('Failed to download image:', error);
     }
   };
 
+  const handleDownloadAll = async () => {
+    if (!onDownloadAll) return;
+    setIsArchiving(true);
+    setArchiveError(null);
+    try {
+      await onDownloadAll();
+    } catch (error) {
+      console.error('Failed to build archive:', error);
+      setArchiveError(error instanceof Error ? error.message : 'Failed to build archive');
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
   if (imageArray.length === 0) {
     return null;
   }
 
   return (
     <div className="w-full">
-      <h3 className="text-lg font-semibold mb-4">Generated Images</h3>
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+      {!compact && (
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h3 className="text-lg font-semibold">Generated Images</h3>
+          {onDownloadAll && (
+            <button
+              type="button"
+              onClick={handleDownloadAll}
+              disabled={isArchiving}
+              className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg font-medium hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 cursor-pointer active:scale-[0.98]"
+            >
+              {isArchiving ? 'Preparing ZIP...' : 'Download all (ZIP)'}
+            </button>
+          )}
+        </div>
+      )}
+      {archiveError && <p className="mb-4 text-sm text-red-600 dark:text-red-400">{archiveError}</p>}
+      <div className={compact ? 'grid grid-cols-1 gap-2' : 'grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4'}>
         {imageArray.map((imageUrl, index) => (
           <div 
             key={index} 
@@ -117,12 +155,53 @@ export default function ResultGallery({ images, onImageSelect, selectedImage: ex
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
             </button>
-            <img
-              src={displaySelectedImage}
-              alt="Full size preview"
-              className="max-w-full max-h-[90vh] object-contain rounded-lg cursor-default"
-              onClick={(e) => e.stopPropagation()}
-            />
+            {comparisonSources.length > 0 && (
+              <div
+                className="flex flex-wrap items-center justify-center gap-2 mb-3 pr-14 cursor-default"
+                onClick={(e) => e.stopPropagation()}
+              >
+                {COMPARISON_MODES.map(({ mode, label }) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => setComparisonMode(mode)}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 cursor-pointer ${
+                      comparisonMode === mode ? 'bg-blue-600 text-white' : 'bg-white text-black hover:bg-gray-100'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+                {comparisonMode && comparisonSources.length > 1 && (
+                  <select
+                    value={Math.min(comparisonIndex, comparisonSources.length - 1)}
+                    onChange={(e) => setComparisonIndex(parseInt(e.target.value))}
+                    className="px-3 py-1.5 rounded-lg text-sm bg-white text-black"
+                    aria-label="Compare against"
+                  >
+                    {comparisonSources.map((source, index) => (
+                      <option key={source.label} value={index}>{source.label}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
+            {comparisonMode && comparisonSources.length > 0 ? (
+              <div className="cursor-default" onClick={(e) => e.stopPropagation()}>
+                <ImageComparison
+                  mode={comparisonMode}
+                  before={comparisonSources[Math.min(comparisonIndex, comparisonSources.length - 1)]}
+                  after={displaySelectedImage}
+                />
+              </div>
+            ) : (
+              <img
+                src={displaySelectedImage}
+                alt="Full size preview"
+                className="max-w-full max-h-[90vh] object-contain rounded-lg cursor-default"
+                onClick={(e) => e.stopPropagation()}
+              />
+            )}
           </div>
         </div>
       )}
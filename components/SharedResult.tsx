@@ -0,0 +1,88 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import StatusDisplay from '@/components/StatusDisplay';
+import ResultGallery from '@/components/ResultGallery';
+import { subscribeToJob, type JobUpdate } from '@/lib/api/jobSubscription';
+import { isTerminalStatus } from '@/lib/api/matchingSet';
+
+interface SharedResultProps {
+  predictionId: string;
+}
+
+const formatTimestamp = (value: string | null): string => (value ? new Date(value).toLocaleString() : '—');
+
+/**
+ * Read-only view of one job, kept up to date while it is still running
+ */
+export default function SharedResult({ predictionId }: SharedResultProps) {
+  const [job, setJob] = useState<JobUpdate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return subscribeToJob(predictionId, {
+      // Realtime rows carry no message, so keep the last one from a status poll
+      onUpdate: (update) => setJob((current) => ({ ...update, message: update.message ?? current?.message })),
+      onError: (err) => setError(err instanceof Error ? err.message : 'Failed to load this result'),
+    });
+  }, [predictionId]);
+
+  const outputs = job?.output ? ([] as string[]).concat(job.output) : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-2">
+            Try-On Result
+          </h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400 font-mono break-all">{predictionId}</p>
+          <Link
+            href="/"
+            className="inline-block mt-3 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Open the generator
+          </Link>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 md:p-8 space-y-6">
+          {error && (
+            <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          )}
+
+          {job ? (
+            <>
+              <div className="flex flex-col items-center gap-2">
+                <StatusDisplay
+                  status={job.status}
+                  message={job.error || job.message}
+                  timing={{ createdAt: job.created_at, startedAt: job.started_at, completedAt: job.completed_at }}
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Created {formatTimestamp(job.created_at)} · Completed {formatTimestamp(job.completed_at)}
+                </p>
+              </div>
+              {outputs.length > 0 ? (
+                <ResultGallery images={outputs} />
+              ) : (
+                isTerminalStatus(job.status) && (
+                  <p className="text-center text-sm text-gray-500 dark:text-gray-400">This job has no output images.</p>
+                )
+              )}
+              {!isTerminalStatus(job.status) && (
+                <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+                  Still generating; this page updates by itself.
+                </p>
+              )}
+            </>
+          ) : (
+            !error && <p className="text-center text-gray-500 dark:text-gray-400">Loading result...</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
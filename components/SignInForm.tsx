@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import { OAUTH_PROVIDERS, signInWithEmail, signInWithProvider, type OAuthProvider } from '@/lib/api/auth';
+
+/**
+ * Magic link and OAuth sign-in. Both come back to the current page signed in.
+ */
+export default function SignInForm() {
+  const [email, setEmail] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleEmailSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSending(true);
+    try {
+      await signInWithEmail(email);
+      setSentTo(email.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send the sign-in link');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleProvider = async (provider: OAuthProvider) => {
+    setError(null);
+    try {
+      await signInWithProvider(provider);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+    }
+  };
+
+  return (
+    <div className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 md:p-8 space-y-6">
+      <div className="text-center">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-1">Sign in</h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Your try-ons, history and libraries are kept separate from everyone else&apos;s.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {sentTo ? (
+        <div className="text-center space-y-3">
+          <p className="text-gray-700 dark:text-gray-300">
+            Check <span className="font-medium">{sentTo}</span> for a sign-in link.
+          </p>
+          <button
+            type="button"
+            onClick={() => setSentTo(null)}
+            className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+          >
+            Use a different email
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleEmailSubmit} className="space-y-3">
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Email</span>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              autoComplete="email"
+              required
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={isSending}
+            className="w-full py-3 px-6 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-all duration-200 cursor-pointer"
+          >
+            {isSending ? 'Sending...' : 'Email me a sign-in link'}
+          </button>
+        </form>
+      )}
+
+      {OAUTH_PROVIDERS.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+            <span className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+            or
+            <span className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+          </div>
+          {OAUTH_PROVIDERS.map(({ provider, label }) => (
+            <button
+              key={provider}
+              type="button"
+              onClick={() => handleProvider(provider)}
+              className="w-full py-3 px-6 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg font-medium hover:bg-gray-300 dark:hover:bg-gray-600 transition-all duration-200 cursor-pointer"
+            >
+              Continue with {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
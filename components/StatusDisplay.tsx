@@ -1,13 +1,50 @@
 'use client';
 
+import { useEffect, useState } from 'react';
+import type { JobStatus } from '@/lib/api/matchingSet';
+import {
+  estimateRemainingMs,
+  formatDuration,
+  JOB_PHASES,
+  measurePhases,
+  phaseForStatus,
+  type DurationEstimate,
+  type JobPhase,
+  type JobTimestamps,
+} from '@/lib/utils/jobTiming';
+
 interface StatusDisplayProps {
   status: string;
   message?: string;
+  /** Current step, shown as a step indicator; derived from the status when only `timing` is given */
+  phase?: JobPhase;
+  /** Backend timestamps, shown as live queued, processing and elapsed times */
+  timing?: JobTimestamps;
+  /** Typical durations of recent jobs, for the ETA */
+  estimate?: DurationEstimate | null;
+}
+
+/**
+ * Current time, ticking every second while `active`
+ */
+function useNow(active: boolean): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [active]);
+  return now;
 }
 
-export default function StatusDisplay({ status, message }: StatusDisplayProps) {
+export default function StatusDisplay({ status, message, phase, timing, estimate = null }: StatusDisplayProps) {
+  const currentPhase = phase ?? (timing ? phaseForStatus(status as JobStatus) : undefined);
+  const now = useNow(currentPhase !== undefined && currentPhase !== 'done');
+
   const getStatusColor = () => {
     switch (status.toLowerCase()) {
+      case 'compressing':
+      case 'uploading':
       case 'starting':
       case 'processing':
         return 'bg-blue-500 text-blue-50';
@@ -24,6 +61,8 @@ export default function StatusDisplay({ status, message }: StatusDisplayProps) {
 
   const getStatusIcon = () => {
     switch (status.toLowerCase()) {
+      case 'compressing':
+      case 'uploading':
       case 'starting':
       case 'processing':
         return (
@@ -51,12 +90,72 @@ export default function StatusDisplay({ status, message }: StatusDisplayProps) {
     }
   };
 
-  return (
+  const pill = (
     <div className={`inline-flex items-center gap-2 px-4 py-2 rounded-full ${getStatusColor()}`}>
       {getStatusIcon()}
       <span className="font-medium capitalize">{status}</span>
       {message && <span className="text-sm opacity-90">- {message}</span>}
     </div>
   );
+
+  if (!currentPhase) {
+    return pill;
+  }
+
+  const currentIndex = JOB_PHASES.findIndex((step) => step.phase === currentPhase);
+  const isUnsuccessful = status === 'failed' || status === 'canceled';
+  const times = timing ? measurePhases(timing, now) : null;
+  const remainingMs = timing ? estimateRemainingMs(status as JobStatus, timing, estimate, now) : null;
+
+  const stats: { label: string; value: string; title?: string }[] = [];
+  if (times?.queuedMs != null) stats.push({ label: 'Queued', value: formatDuration(times.queuedMs) });
+  if (times?.processingMs != null) stats.push({ label: 'Processing', value: formatDuration(times.processingMs) });
+  if (times?.elapsedMs != null) {
+    stats.push({ label: currentPhase === 'done' ? 'Total' : 'Elapsed', value: formatDuration(times.elapsedMs) });
+  }
+  if (remainingMs !== null && estimate) {
+    stats.push({
+      label: 'ETA',
+      value: remainingMs > 0 ? `about ${formatDuration(remainingMs)}` : 'any moment now',
+      title: `Based on ${estimate.sampleSize} recent job${estimate.sampleSize === 1 ? '' : 's'}`,
+    });
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      {pill}
+      <ol className="flex flex-wrap justify-center items-center gap-x-2 gap-y-1 text-xs" aria-label="Progress">
+        {JOB_PHASES.map((step, index) => {
+          const isCurrent = index === currentIndex;
+          const isDone = index < currentIndex || (isCurrent && step.phase === 'done');
+          const color = isCurrent && step.phase === 'done' && isUnsuccessful
+            ? 'text-red-600 dark:text-red-400 font-semibold'
+            : isDone
+              ? 'text-green-600 dark:text-green-400'
+              : isCurrent
+                ? 'text-blue-600 dark:text-blue-400 font-semibold'
+                : 'text-gray-400 dark:text-gray-500';
+          return (
+            <li key={step.phase} className="flex items-center gap-2" aria-current={isCurrent ? 'step' : undefined}>
+              {index > 0 && <span className="text-gray-300 dark:text-gray-600">→</span>}
+              <span className={color}>
+                {step.phase === 'done' && isCurrent && isUnsuccessful ? (status === 'failed' ? 'Failed' : 'Canceled') : step.label}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+      {stats.length > 0 && (
+        <dl className="flex flex-wrap justify-center gap-x-5 gap-y-1 text-sm">
+          {stats.map((stat) => (
+            <div key={stat.label} className="flex gap-1" title={stat.title}>
+              <dt className="text-gray-500 dark:text-gray-400">{stat.label}</dt>
+              <dd className="font-medium text-gray-800 dark:text-gray-200 tabular-nums">{stat.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
 }
 
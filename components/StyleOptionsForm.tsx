@@ -0,0 +1,147 @@
+'use client';
+
+import { useState, useSyncExternalStore } from 'react';
+import type { StyleOptions } from '@/lib/api/matchingSet';
+import { MAX_PROMPT_LENGTH } from '@/lib/config';
+import {
+  STYLE_OPTION_FIELDS,
+  deleteStylePreset,
+  getServerStylePresets,
+  getStylePresets,
+  saveStylePreset,
+  subscribeToStylePresets,
+} from '@/lib/utils/stylePresets';
+
+interface StyleOptionsFormProps {
+  prompt: string;
+  style: StyleOptions;
+  onPromptChange: (prompt: string) => void;
+  onStyleChange: (style: StyleOptions) => void;
+  disabled?: boolean;
+}
+
+const inputClassName =
+  'w-full px-4 py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all hover:border-gray-400 dark:hover:border-gray-600';
+
+export default function StyleOptionsForm({ prompt, style, onPromptChange, onStyleChange, disabled = false }: StyleOptionsFormProps) {
+  const presets = useSyncExternalStore(subscribeToStylePresets, getStylePresets, getServerStylePresets);
+  const [presetName, setPresetName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApplyPreset = (name: string) => {
+    const preset = presets.find((existing) => existing.name === name);
+    if (!preset) return;
+    onPromptChange(preset.prompt);
+    onStyleChange(preset.style);
+    setPresetName(preset.name);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setError(null);
+    try {
+      saveStylePreset({ name, prompt, style });
+    } catch (err) {
+      console.error('Failed to save preset:', err);
+      setError('Failed to save preset. Local storage may be full or disabled.');
+    }
+  };
+
+  const handleDeletePreset = () => {
+    setError(null);
+    try {
+      deleteStylePreset(presetName.trim());
+      setPresetName('');
+    } catch (err) {
+      console.error('Failed to delete preset:', err);
+      setError('Failed to delete preset');
+    }
+  };
+
+  const hasPreset = presets.some((preset) => preset.name === presetName.trim());
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <select
+          value={hasPreset ? presetName.trim() : ''}
+          onChange={(e) => handleApplyPreset(e.target.value)}
+          disabled={disabled || presets.length === 0}
+          className={`${inputClassName} sm:w-56 cursor-pointer disabled:opacity-50`}
+          aria-label="Apply a preset"
+        >
+          <option value="">{presets.length === 0 ? 'No saved presets' : 'Apply a preset...'}</option>
+          {presets.map((preset) => (
+            <option key={preset.name} value={preset.name}>{preset.name}</option>
+          ))}
+        </select>
+        <input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Preset name"
+          disabled={disabled}
+          className={inputClassName}
+          aria-label="Preset name"
+        />
+        <button
+          type="button"
+          onClick={handleSavePreset}
+          disabled={disabled || !presetName.trim()}
+          className="px-4 py-2.5 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg font-medium hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 cursor-pointer whitespace-nowrap"
+        >
+          {hasPreset ? 'Update preset' : 'Save preset'}
+        </button>
+        {hasPreset && (
+          <button
+            type="button"
+            onClick={handleDeletePreset}
+            disabled={disabled}
+            className="px-4 py-2.5 text-sm text-red-600 dark:text-red-400 rounded-lg font-medium hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 cursor-pointer"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div>
+        <label htmlFor="prompt" className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
+          Prompt
+        </label>
+        <textarea
+          id="prompt"
+          value={prompt}
+          onChange={(e) => onPromptChange(e.target.value)}
+          maxLength={MAX_PROMPT_LENGTH}
+          rows={3}
+          disabled={disabled}
+          placeholder="Optional, e.g. full-length shot, neutral expression"
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {STYLE_OPTION_FIELDS.map((field) => (
+          <div key={field.key}>
+            <label htmlFor={`style-${field.key}`} className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
+              {field.label}
+            </label>
+            <select
+              id={`style-${field.key}`}
+              value={style[field.key] || ''}
+              onChange={(e) => onStyleChange({ ...style, [field.key]: e.target.value || undefined })}
+              disabled={disabled}
+              className={`${inputClassName} cursor-pointer`}
+            >
+              <option value="">Default</option>
+              {field.choices.map((choice) => (
+                <option key={choice.value} value={choice.value}>{choice.label}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
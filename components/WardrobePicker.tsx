@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  listWardrobeItems,
+  fetchWardrobeItemFile,
+  type WardrobeCategory,
+  type WardrobeItem,
+} from '@/lib/api/wardrobe';
+
+interface WardrobePickerProps {
+  category: WardrobeCategory;
+  onSelect: (file: File) => void;
+  disabled?: boolean;
+}
+
+export default function WardrobePicker({ category, onSelect, disabled = false }: WardrobePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [items, setItems] = useState<WardrobeItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadingItemId, setLoadingItemId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const openPicker = async () => {
+    setIsOpen(true);
+    setIsLoading(true);
+    setError(null);
+    try {
+      setItems(await listWardrobeItems(category));
+    } catch (err) {
+      console.error('Failed to load wardrobe:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load wardrobe');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSelect = async (item: WardrobeItem) => {
+    setLoadingItemId(item.id);
+    setError(null);
+    try {
+      onSelect(await fetchWardrobeItemFile(item));
+      setIsOpen(false);
+    } catch (err) {
+      console.error('Failed to load wardrobe item:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load wardrobe item');
+    } finally {
+      setLoadingItemId(null);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleItems = query
+    ? items.filter((item) =>
+        [item.name, item.color || '', item.brand || '', ...item.tags].some((value) => value.toLowerCase().includes(query))
+      )
+    : items;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={openPicker}
+        disabled={disabled}
+        className="mt-2 text-sm font-medium text-purple-600 dark:text-purple-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+      >
+        Choose from wardrobe
+      </button>
+
+      {isOpen && (
+        <div
+          className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4"
+          onClick={() => setIsOpen(false)}
+        >
+          <div
+            className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between gap-4 p-4 border-b border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200 capitalize">Wardrobe · {category}</h3>
+              <button
+                type="button"
+                onClick={() => setIsOpen(false)}
+                className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-all duration-200 cursor-pointer"
+                aria-label="Close"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="p-4 space-y-4 overflow-y-auto">
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by name, tag, color or brand"
+                className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+
+              {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+              {isLoading ? (
+                <p className="text-center text-sm text-gray-500 dark:text-gray-400">Loading wardrobe...</p>
+              ) : visibleItems.length === 0 ? (
+                <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+                  {items.length === 0 ? `No ${category} items in the wardrobe yet.` : 'No items match your search.'}
+                </p>
+              ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                  {visibleItems.map((item) => (
+                    <button
+                      key={item.id}
+                      type="button"
+                      onClick={() => handleSelect(item)}
+                      disabled={loadingItemId !== null}
+                      className="text-left rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700 hover:border-purple-400 dark:hover:border-purple-500 hover:shadow-md disabled:opacity-50 transition-all duration-200 cursor-pointer"
+                    >
+                      <div className="aspect-square bg-gray-100 dark:bg-gray-900">
+                        {item.image_url && (
+                          <img src={item.image_url} alt={item.name} className="w-full h-full object-cover" />
+                        )}
+                      </div>
+                      <div className="p-2">
+                        <p className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">
+                          {loadingItemId === item.id ? 'Loading...' : item.name}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                          {[item.brand, item.color, ...item.tags].filter(Boolean).join(' · ')}
+                        </p>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,10 @@
+/**
+ * Runs once when the server starts
+ */
+export async function register() {
+  // The limits only live in the Node.js server; builds don't serve requests
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.NEXT_PHASE === 'phase-production-build') return;
+
+  const { checkClientIpSource } = await import('@/lib/server/rateLimit');
+  checkClientIpSource();
+}
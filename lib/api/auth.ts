@@ -0,0 +1,149 @@
+import type { Provider, Session } from '@supabase/supabase-js';
+import { isAuthEnabled } from '@/lib/config';
+import { supabase } from '@/lib/supabase';
+import { ApiError, AuthError, ValidationError } from './errors';
+
+export type OAuthProvider = Extract<Provider, 'google' | 'github' | 'azure' | 'gitlab'>;
+
+const PROVIDER_LABELS: Record<OAuthProvider, string> = {
+  google: 'Google',
+  github: 'GitHub',
+  azure: 'Microsoft',
+  gitlab: 'GitLab',
+};
+
+/**
+ * OAuth providers offered on the sign-in form, from NEXT_PUBLIC_AUTH_PROVIDERS (default: google)
+ */
+export const OAUTH_PROVIDERS: { provider: OAuthProvider; label: string }[] = (
+  process.env.NEXT_PUBLIC_AUTH_PROVIDERS ?? 'google'
+)
+  .split(',')
+  .map((name) => name.trim())
+  .filter((name): name is OAuthProvider => name in PROVIDER_LABELS)
+  .map((provider) => ({ provider, label: PROVIDER_LABELS[provider] }));
+
+export interface AuthState {
+  /** True until the stored session has been read */
+  loading: boolean;
+  session: Session | null;
+}
+
+const LOADING_STATE: AuthState = { loading: true, session: null };
+const SIGNED_OUT_STATE: AuthState = { loading: false, session: null };
+
+let state: AuthState = isAuthEnabled ? LOADING_STATE : SIGNED_OUT_STATE;
+let started = false;
+const listeners = new Set<() => void>();
+
+function setState(session: Session | null) {
+  // onAuthStateChange repeats the session getSession already delivered; skip updates that change nothing
+  if (!state.loading && state.session?.access_token === session?.access_token) {
+    return;
+  }
+  state = session ? { loading: false, session } : SIGNED_OUT_STATE;
+  listeners.forEach((listener) => listener());
+}
+
+function start() {
+  if (started || !isAuthEnabled) return;
+  started = true;
+  supabase.auth
+    .getSession()
+    .then(({ data }) => setState(data.session))
+    .catch((err) => {
+      console.warn('Failed to restore session:', err);
+      setState(null);
+    });
+  supabase.auth.onAuthStateChange((_event, session) => setState(session));
+}
+
+/**
+ * Listen for sign-in and sign-out, for `useSyncExternalStore`
+ */
+export function subscribeToAuth(listener: () => void): () => void {
+  start();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getAuthState(): AuthState {
+  return state;
+}
+
+// The server can't see the browser's session, so it renders the loading state
+export function getServerAuthState(): AuthState {
+  return isAuthEnabled ? LOADING_STATE : SIGNED_OUT_STATE;
+}
+
+/**
+ * Access token for API requests, refreshed first if it has expired. Null when signed out.
+ */
+export async function getAccessToken(): Promise<string | null> {
+  if (!isAuthEnabled) return null;
+  const { data, error } = await supabase.auth.getSession();
+  if (error) {
+    console.warn('Failed to read session:', error);
+    return null;
+  }
+  return data.session?.access_token ?? null;
+}
+
+/**
+ * Id of the signed-in user, for data that is stored per user
+ */
+export async function requireUserId(): Promise<string> {
+  const { data } = await supabase.auth.getSession();
+  if (!data.session) {
+    throw new AuthError('Sign in to use your library');
+  }
+  return data.session.user.id;
+}
+
+/**
+ * Headers that identify the signed-in user to our API routes
+ */
+export async function authHeaders(): Promise<Record<string, string>> {
+  const token = await getAccessToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Email a sign-in link that brings the user back to the current page
+ */
+export async function signInWithEmail(email: string): Promise<void> {
+  const address = email.trim();
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address)) {
+    throw new ValidationError('Enter a valid email address');
+  }
+
+  const { error } = await supabase.auth.signInWithOtp({
+    email: address,
+    options: { emailRedirectTo: window.location.href },
+  });
+  if (error) {
+    throw new ApiError(`Failed to send the sign-in link: ${error.message}`);
+  }
+}
+
+/**
+ * Redirect to an OAuth provider; the session is picked up from the URL on return
+ */
+export async function signInWithProvider(provider: OAuthProvider): Promise<void> {
+  const { error } = await supabase.auth.signInWithOAuth({
+    provider,
+    options: { redirectTo: window.location.href },
+  });
+  if (error) {
+    throw new ApiError(`Failed to sign in with ${PROVIDER_LABELS[provider]}: ${error.message}`);
+  }
+}
+
+export async function signOut(): Promise<void> {
+  const { error } = await supabase.auth.signOut();
+  if (error) {
+    throw new ApiError(`Failed to sign out: ${error.message}`);
+  }
+}
@@ -0,0 +1,119 @@
+import {
+  ClientHttpError,
+  HttpError,
+  NetworkError,
+  ServerHttpError,
+  TimeoutError,
+  ValidationError,
+  isAbortError,
+} from './errors';
+
+export interface RequestOptions {
+  /** Cancels the request, including any pending retry */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds (default: 30000) */
+  timeoutMs?: number;
+  /** Number of extra attempts for retryable failures (default: 0) */
+  retries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+
+/**
+ * Exponential backoff with full jitter: a random delay in [0, base * 2^attempt]
+ */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof ServerHttpError) {
+    return true;
+  }
+  // Rate limited - worth another try after backing off
+  return error instanceof HttpError && error.status === 429;
+}
+
+async function fetchOnce(url: string, init: RequestInit, signal: AbortSignal | undefined, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (err) {
+    if (timedOut) {
+      throw new TimeoutError(timeoutMs);
+    }
+    if (isAbortError(err) || signal?.aborted) {
+      throw err;
+    }
+    throw new NetworkError('Unable to reach the server. Check your connection and try again.', { cause: err });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+async function toHttpError(response: Response): Promise<HttpError> {
+  const body = await response.json().catch(() => null);
+  const message =
+    (body && typeof body === 'object' && 'message' in body && typeof body.message === 'string' && body.message) ||
+    `HTTP error! status: ${response.status}`;
+  return response.status >= 500
+    ? new ServerHttpError(message, response.status, body)
+    : new ClientHttpError(message, response.status, body);
+}
+
+/**
+ * Send a request and parse the JSON response, retrying retryable failures
+ * with exponential backoff. Only pass `retries` for idempotent requests.
+ */
+export async function requestJson<T>(url: string, init: RequestInit, options: RequestOptions = {}): Promise<T> {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = 0 } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await fetchOnce(url, init, signal, timeoutMs);
+      if (!response.ok) {
+        throw await toHttpError(response);
+      }
+      try {
+        return (await response.json()) as T;
+      } catch (parseError) {
+        throw new ValidationError('The server returned a malformed response', { cause: parseError });
+      }
+    } catch (err) {
+      if (attempt >= retries || !isRetryable(err) || signal?.aborted) {
+        throw err;
+      }
+      await sleep(backoffDelay(attempt), signal);
+    }
+  }
+}
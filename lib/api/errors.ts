@@ -0,0 +1,72 @@
+/**
+ * Base class for every error raised by the API client
+ */
+export class ApiError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The request never produced a response (offline, DNS, CORS, connection reset)
+ */
+export class NetworkError extends ApiError {}
+
+/**
+ * The request did not complete within the configured timeout
+ */
+export class TimeoutError extends NetworkError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The server answered with a non-2xx status code
+ */
+export class HttpError extends ApiError {
+  readonly status: number;
+  readonly body: unknown;
+
+  constructor(message: string, status: number, body?: unknown) {
+    super(message);
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * 4xx - the request itself was rejected and should not be retried as-is
+ */
+export class ClientHttpError extends HttpError {}
+
+/**
+ * 5xx - the backend failed and the request may succeed if retried
+ */
+export class ServerHttpError extends HttpError {}
+
+/**
+ * The client is missing required configuration (e.g. environment variables)
+ */
+export class ConfigError extends ApiError {}
+
+/**
+ * The action needs a signed-in user
+ */
+export class AuthError extends ApiError {}
+
+/**
+ * The caller passed invalid input, or the backend returned a malformed payload
+ */
+export class ValidationError extends ApiError {}
+
+/**
+ * Check whether an error was caused by an AbortSignal rather than a failure
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
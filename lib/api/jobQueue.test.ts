@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ClientHttpError } from './errors';
+import { createJobQueue, type JobQueueOptions } from './jobQueue';
+import type { JobStatus, StatusResponse } from './matchingSet';
+
+const response = (predictionId: string, status: JobStatus, output: string[] | null = null): StatusResponse => ({
+  status: 'success',
+  message: status,
+  data: {
+    prediction_id: predictionId,
+    status,
+    output,
+    error: status === 'failed' ? 'Generation failed' : null,
+    created_at: '2026-01-01T00:00:00.000Z',
+    started_at: null,
+    completed_at: null,
+  },
+});
+
+/**
+ * Status fetcher whose requests stay pending until the test answers them
+ */
+function pendingStatuses() {
+  const pending: { predictionId: string; resolve: (response: StatusResponse) => void; reject: (err: unknown) => void }[] = [];
+  const fetchStatus = vi.fn(
+    (predictionId: string) =>
+      new Promise<StatusResponse>((resolve, reject) => {
+        pending.push({ predictionId, resolve, reject });
+      })
+  );
+  return {
+    fetchStatus,
+    pending,
+    /** Answer the oldest pending request for the job */
+    answer(predictionId: string, status: JobStatus, output: string[] | null = null) {
+      const index = pending.findIndex((request) => request.predictionId === predictionId);
+      pending.splice(index, 1)[0].resolve(response(predictionId, status, output));
+    },
+  };
+}
+
+function createQueue(fetchStatus: NonNullable<JobQueueOptions['subscription']>['fetchStatus'], options: JobQueueOptions = {}) {
+  return createJobQueue({
+    cancel: vi.fn(async () => {}),
+    ...options,
+    subscription: { realtime: null, minIntervalMs: 1000, maxIntervalMs: 1000, fetchStatus },
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('createJobQueue concurrency', () => {
+  it('keeps at most maxConcurrentPolls status requests in flight', async () => {
+    const statuses = pendingStatuses();
+    const queue = createQueue(statuses.fetchStatus, { maxConcurrentPolls: 2 });
+
+    ['a', 'b', 'c', 'd'].forEach((predictionId) => queue.add({ predictionId, label: predictionId }));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(statuses.fetchStatus.mock.calls.map(([id]) => id)).toEqual(['a', 'b']);
+
+    statuses.answer('a', 'processing');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(statuses.fetchStatus.mock.calls.map(([id]) => id)).toEqual(['a', 'b', 'c']);
+    expect(statuses.pending).toHaveLength(2);
+
+    statuses.answer('b', 'succeeded', ['b.png']);
+    statuses.answer('c', 'processing');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(statuses.fetchStatus.mock.calls.map(([id]) => id)).toEqual(['a', 'b', 'c', 'd']);
+
+    queue.stopAll();
+  });
+
+  it('does not track the same job twice', async () => {
+    const statuses = pendingStatuses();
+    const queue = createQueue(statuses.fetchStatus);
+
+    queue.add({ predictionId: 'a', label: 'a' });
+    queue.add({ predictionId: 'a', label: 'a' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(statuses.fetchStatus).toHaveBeenCalledTimes(1);
+    expect(queue.getJobs()).toHaveLength(1);
+    queue.stopAll();
+  });
+});
+
+describe('createJobQueue state', () => {
+  it('follows a job from submission to success and announces it once', async () => {
+    const statuses = pendingStatuses();
+    const queue = createQueue(statuses.fetchStatus);
+    const finished = vi.fn();
+    queue.onFinished(finished);
+
+    queue.add({ predictionId: 'a', label: 'Top', status: 'starting' });
+    const added = queue.getJobs();
+    expect(added[0]).toMatchObject({ predictionId: 'a', label: 'Top', status: 'starting', finishedAt: null });
+
+    await vi.advanceTimersByTimeAsync(0);
+    statuses.answer('a', 'processing');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(queue.getJobs()).not.toBe(added);
+    expect(queue.getJobs()[0]).toMatchObject({ status: 'processing', finishedAt: null });
+
+    statuses.answer('a', 'succeeded', ['a.png']);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(queue.getJobs()[0]).toMatchObject({ status: 'succeeded', outputs: ['a.png'], error: null });
+    expect(queue.getJobs()[0].finishedAt).not.toBeNull();
+    expect(finished).toHaveBeenCalledTimes(1);
+    // Tracking stops with the terminal status
+    expect(statuses.fetchStatus).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports failures with the backend error', async () => {
+    const queue = createQueue(async (id) => response(id, 'failed'));
+    const finished = vi.fn();
+    queue.onFinished(finished);
+
+    queue.add({ predictionId: 'a', label: 'a' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(finished).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed', error: 'Generation failed' }));
+  });
+
+  it('only syncs jobs that had already finished when added', async () => {
+    const queue = createQueue(async (id) => response(id, 'succeeded', ['a.png']));
+    const finished = vi.fn();
+    queue.onFinished(finished);
+
+    queue.add({ predictionId: 'a', label: 'a', status: 'succeeded' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(queue.getJobs()[0]).toMatchObject({ status: 'succeeded', outputs: ['a.png'] });
+    expect(finished).not.toHaveBeenCalled();
+  });
+
+  it('lists jobs newest first and clears the finished ones', async () => {
+    const queue = createQueue(async (id) => response(id, id === 'done' ? 'succeeded' : 'processing'));
+
+    queue.add({ predictionId: 'done', label: 'done' });
+    await vi.advanceTimersByTimeAsync(10);
+    queue.add({ predictionId: 'running', label: 'running' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.getJobs().map((job) => job.predictionId)).toEqual(['running', 'done']);
+
+    queue.clearFinished();
+
+    expect(queue.getJobs().map((job) => job.predictionId)).toEqual(['running']);
+    queue.stopAll();
+  });
+
+  it('stops tracking on errors and retries when the job is added again', async () => {
+    let failing = true;
+    const queue = createQueue(async (id) => {
+      if (failing) throw new ClientHttpError('Not found', 404);
+      return response(id, 'processing');
+    });
+
+    queue.add({ predictionId: 'a', label: 'a' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.getJobs()[0].error).toBe('Stopped tracking: Not found');
+
+    failing = false;
+    queue.add({ predictionId: 'a', label: 'a' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(queue.getJobs()[0]).toMatchObject({ status: 'processing', error: null });
+    queue.stopAll();
+  });
+});
+
+describe('createJobQueue cancel', () => {
+  it('marks the job canceled, stops polling and does not announce it', async () => {
+    const fetchStatus = vi.fn(async (id: string) => response(id, 'processing'));
+    const cancel = vi.fn(async () => {});
+    const queue = createQueue(fetchStatus, { cancel });
+    const finished = vi.fn();
+    queue.onFinished(finished);
+
+    queue.add({ predictionId: 'a', label: 'a' });
+    await vi.advanceTimersByTimeAsync(0);
+    await queue.cancel('a');
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(cancel).toHaveBeenCalledWith('a');
+    expect(queue.getJobs()[0]).toMatchObject({ status: 'canceled' });
+    expect(queue.getJobs()[0].finishedAt).not.toBeNull();
+    expect(fetchStatus).toHaveBeenCalledTimes(1);
+    expect(finished).not.toHaveBeenCalled();
+  });
+
+  it('restores the job and keeps tracking it when canceling fails', async () => {
+    const fetchStatus = vi.fn(async (id: string) => response(id, 'processing'));
+    const queue = createQueue(fetchStatus, { cancel: vi.fn(async () => Promise.reject(new Error('offline'))) });
+
+    queue.add({ predictionId: 'a', label: 'a' });
+    await vi.advanceTimersByTimeAsync(0);
+    await expect(queue.cancel('a')).rejects.toThrow('offline');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(queue.getJobs()[0]).toMatchObject({ status: 'processing', finishedAt: null });
+    expect(fetchStatus).toHaveBeenCalledTimes(2);
+    queue.stopAll();
+  });
+});
@@ -0,0 +1,239 @@
+import { createConcurrencyLimiter } from '@/lib/utils/concurrency';
+import { cancelJob, checkJobStatus, isTerminalStatus, type JobStatus } from './matchingSet';
+import { subscribeToJob, type JobSubscriptionOptions, type JobUpdate } from './jobSubscription';
+
+/**
+ * A submitted prediction and its latest known state
+ */
+export interface QueuedJob {
+  predictionId: string;
+  /** Short description for the queue panel, e.g. the garments that were added */
+  label: string;
+  thumbnail: string | null;
+  /** Outfit step the job renders, when it belongs to the layered flow */
+  stepId: string | null;
+  status: JobStatus | null;
+  message: string;
+  error: string | null;
+  outputs: string[];
+  /** Backend timestamps (ISO strings), null until the backend reports them */
+  createdAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  addedAt: number;
+  /** When the job reached a terminal status, or null while it is running */
+  finishedAt: number | null;
+}
+
+export type NewQueuedJob = Pick<QueuedJob, 'predictionId' | 'label'> &
+  Partial<Pick<QueuedJob, 'thumbnail' | 'stepId' | 'status'>>;
+
+export interface JobQueueOptions {
+  /** Status requests allowed in flight at once across all tracked jobs (default: 2) */
+  maxConcurrentPolls?: number;
+  /** Passed to every job subscription, e.g. to replace the realtime source */
+  subscription?: JobSubscriptionOptions;
+  /** Cancels a job on the backend (default: cancelJob) */
+  cancel?: (predictionId: string) => Promise<unknown>;
+}
+
+export interface JobQueue {
+  /** Start tracking a job; adding a known job resumes tracking if it stopped */
+  add(job: NewQueuedJob): void;
+  /** Stop tracking and cancel the job on the backend */
+  cancel(predictionId: string): Promise<void>;
+  /** Stop tracking and drop the job from the queue */
+  remove(predictionId: string): void;
+  clearFinished(): void;
+  /** Jobs newest first. The same array is returned until something changes, for `useSyncExternalStore`. */
+  getJobs(): QueuedJob[];
+  subscribe(listener: () => void): () => void;
+  /** Called for every status update of every job */
+  onUpdate(listener: (job: QueuedJob, update: JobUpdate) => void): () => void;
+  /** Called once when a job succeeds or fails; canceling is not reported */
+  onFinished(listener: (job: QueuedJob) => void): () => void;
+  /** Stop tracking every job, keeping them in the queue */
+  stopAll(): void;
+}
+
+const NO_JOBS: QueuedJob[] = [];
+
+function isFinished(job: Pick<QueuedJob, 'status'>): boolean {
+  return job.status !== null && isTerminalStatus(job.status);
+}
+
+/**
+ * Track any number of predictions at once. Each job gets its own subscription (realtime
+ * with adaptive polling as a fallback), but every status request goes through one shared
+ * limiter, so a long queue doesn't flood the backend.
+ */
+export function createJobQueue(options: JobQueueOptions = {}): JobQueue {
+  const { maxConcurrentPolls = 2, subscription = {}, cancel = cancelJob } = options;
+  const fetchStatus = subscription.fetchStatus ?? checkJobStatus;
+  const limiter = createConcurrencyLimiter(maxConcurrentPolls);
+
+  const jobs = new Map<string, QueuedJob>();
+  const unsubscribes = new Map<string, () => void>();
+  const listeners = new Set<() => void>();
+  const updateListeners = new Set<(job: QueuedJob, update: JobUpdate) => void>();
+  const finishedListeners = new Set<(job: QueuedJob) => void>();
+  let snapshot: QueuedJob[] = NO_JOBS;
+
+  const emit = () => {
+    snapshot = [...jobs.values()].sort((a, b) => b.addedAt - a.addedAt);
+    listeners.forEach((listener) => listener());
+  };
+
+  const stopTracking = (predictionId: string) => {
+    unsubscribes.get(predictionId)?.();
+    unsubscribes.delete(predictionId);
+  };
+
+  const handleUpdate = (predictionId: string, update: JobUpdate) => {
+    const job = jobs.get(predictionId);
+    if (!job) return;
+
+    const outputs = update.output ? ([] as string[]).concat(update.output) : [];
+    const next: QueuedJob = {
+      ...job,
+      status: update.status,
+      message: update.message ?? job.message,
+      error: update.error,
+      outputs: outputs.length > 0 ? outputs : job.outputs,
+      createdAt: update.created_at ?? job.createdAt,
+      startedAt: update.started_at ?? job.startedAt,
+      completedAt: update.completed_at ?? job.completedAt,
+    };
+    const justFinished = job.finishedAt === null && (isFinished(next) || Boolean(update.error));
+    if (justFinished) {
+      next.finishedAt = Date.now();
+      // The subscription stops itself on terminal updates
+      unsubscribes.delete(predictionId);
+    }
+    jobs.set(predictionId, next);
+    emit();
+
+    updateListeners.forEach((listener) => listener(next, update));
+    if (justFinished && next.status !== 'canceled') {
+      finishedListeners.forEach((listener) => listener(next));
+    }
+  };
+
+  const handleTrackingError = (predictionId: string, error: unknown) => {
+    unsubscribes.delete(predictionId);
+    const job = jobs.get(predictionId);
+    if (!job) return;
+    const reason = error instanceof Error ? error.message : 'Failed to check job status';
+    jobs.set(predictionId, { ...job, error: `Stopped tracking: ${reason}` });
+    emit();
+  };
+
+  const track = (predictionId: string) => {
+    if (unsubscribes.has(predictionId)) return;
+    const unsubscribe = subscribeToJob(
+      predictionId,
+      {
+        onUpdate: (update) => handleUpdate(predictionId, update),
+        onError: (error) => handleTrackingError(predictionId, error),
+      },
+      {
+        ...subscription,
+        fetchStatus: (id, requestOptions) => limiter.run(() => fetchStatus(id, requestOptions)),
+      }
+    );
+    unsubscribes.set(predictionId, unsubscribe);
+  };
+
+  return {
+    add(job) {
+      const existing = jobs.get(job.predictionId);
+      if (!existing) {
+        jobs.set(job.predictionId, {
+          thumbnail: null,
+          stepId: null,
+          status: null,
+          message: '',
+          error: null,
+          outputs: [],
+          createdAt: null,
+          startedAt: null,
+          completedAt: null,
+          addedAt: Date.now(),
+          ...job,
+          // Jobs that already finished (e.g. resumed after a reload) are only synced, not announced
+          finishedAt: isFinished({ status: job.status ?? null }) ? Date.now() : null,
+        });
+        emit();
+      } else if (existing.error && !existing.finishedAt) {
+        // Tracking gave up earlier; clear the error while trying again
+        jobs.set(job.predictionId, { ...existing, error: null });
+        emit();
+      }
+      track(job.predictionId);
+    },
+
+    async cancel(predictionId) {
+      const job = jobs.get(predictionId);
+      stopTracking(predictionId);
+      if (job) {
+        jobs.set(predictionId, { ...job, status: 'canceled', finishedAt: job.finishedAt ?? Date.now() });
+        emit();
+      }
+      try {
+        await cancel(predictionId);
+      } catch (err) {
+        // The job may still be running, so keep following it
+        if (job) {
+          jobs.set(predictionId, job);
+          emit();
+          track(predictionId);
+        }
+        throw err;
+      }
+    },
+
+    remove(predictionId) {
+      stopTracking(predictionId);
+      if (jobs.delete(predictionId)) emit();
+    },
+
+    clearFinished() {
+      let changed = false;
+      for (const job of jobs.values()) {
+        if (job.finishedAt !== null) {
+          stopTracking(job.predictionId);
+          jobs.delete(job.predictionId);
+          changed = true;
+        }
+      }
+      if (changed) emit();
+    },
+
+    getJobs: () => snapshot,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    onUpdate(listener) {
+      updateListeners.add(listener);
+      return () => {
+        updateListeners.delete(listener);
+      };
+    },
+
+    onFinished(listener) {
+      finishedListeners.add(listener);
+      return () => {
+        finishedListeners.delete(listener);
+      };
+    },
+
+    stopAll() {
+      [...unsubscribes.keys()].forEach(stopTracking);
+    },
+  };
+}
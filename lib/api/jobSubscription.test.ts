@@ -0,0 +1,238 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ClientHttpError, ServerHttpError } from './errors';
+import type { JobStatus, StatusResponse } from './matchingSet';
+import { subscribeToJob, type PredictionRow, type RealtimeSource, type RealtimeState } from './jobSubscription';
+
+const row = (status: JobStatus, output: string[] | null = null): PredictionRow => ({
+  prediction_id: 'p1',
+  status,
+  output,
+  error: null,
+  created_at: '2026-01-01T00:00:00.000Z',
+  started_at: null,
+  completed_at: null,
+});
+
+const response = (status: JobStatus): StatusResponse => ({ status: 'success', message: status, data: row(status) });
+
+/**
+ * Status fetcher answering with the given statuses in turn, repeating the last one
+ */
+function statusSequence(...statuses: JobStatus[]) {
+  let index = 0;
+  return vi.fn(async () => response(statuses[Math.min(index++, statuses.length - 1)]));
+}
+
+/**
+ * Realtime source the test drives by hand
+ */
+function manualRealtime() {
+  let onRow: ((row: PredictionRow) => void) | null = null;
+  let onState: ((state: RealtimeState) => void) | null = null;
+  const unsubscribe = vi.fn();
+  const source: RealtimeSource = {
+    subscribe(_, rowHandler, stateHandler) {
+      onRow = rowHandler;
+      onState = stateHandler;
+      return unsubscribe;
+    },
+  };
+  return {
+    source,
+    unsubscribe,
+    push: (update: PredictionRow) => onRow?.(update),
+    setState: (state: RealtimeState) => onState?.(state),
+  };
+}
+
+const options = { minIntervalMs: 1000, maxIntervalMs: 3000, heartbeatMs: 20000, realtimeTimeoutMs: 5000 };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // Failed polls are logged; keep the test output clean
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('subscribeToJob polling', () => {
+  it('polls right away and backs off while the status stays the same', async () => {
+    const fetchStatus = statusSequence('processing');
+    const stop = subscribeToJob('p1', { onUpdate: vi.fn() }, { ...options, realtime: null, fetchStatus });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchStatus).toHaveBeenCalledTimes(1);
+
+    // 1000ms after the first status, then 1500ms and 2250ms while it stays the same
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchStatus).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1499);
+    expect(fetchStatus).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchStatus).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(2250);
+    expect(fetchStatus).toHaveBeenCalledTimes(4);
+
+    // Capped at the longest interval
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(fetchStatus).toHaveBeenCalledTimes(5);
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(fetchStatus).toHaveBeenCalledTimes(6);
+
+    stop();
+  });
+
+  it('goes back to the shortest interval when the status changes', async () => {
+    const fetchStatus = statusSequence('starting', 'starting', 'starting', 'processing', 'processing');
+    const stop = subscribeToJob('p1', { onUpdate: vi.fn() }, { ...options, realtime: null, fetchStatus });
+
+    // Polls at 0, 1000 and 2500; the third backs off to 2250ms, so the next is at 4750
+    await vi.advanceTimersByTimeAsync(4750);
+    expect(fetchStatus).toHaveBeenCalledTimes(4);
+
+    // That poll saw `processing`, so the next one comes after the shortest interval again
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchStatus).toHaveBeenCalledTimes(5);
+
+    stop();
+  });
+
+  it('delivers updates and stops at a terminal status', async () => {
+    const onUpdate = vi.fn();
+    const fetchStatus = statusSequence('processing', 'succeeded');
+    subscribeToJob('p1', { onUpdate }, { ...options, realtime: null, fetchStatus });
+
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(onUpdate.mock.calls.map(([update]) => update.status)).toEqual(['processing', 'succeeded']);
+    expect(onUpdate).toHaveBeenLastCalledWith(expect.objectContaining({ message: 'succeeded' }));
+    expect(fetchStatus).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops polling once unsubscribed', async () => {
+    const fetchStatus = statusSequence('processing');
+    const stop = subscribeToJob('p1', { onUpdate: vi.fn() }, { ...options, realtime: null, fetchStatus });
+
+    await vi.advanceTimersByTimeAsync(0);
+    stop();
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(fetchStatus).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after repeated server errors', async () => {
+    const onError = vi.fn();
+    const error = new ServerHttpError('Internal server error', 500);
+    const fetchStatus = vi.fn().mockRejectedValue(error);
+    subscribeToJob('p1', { onUpdate: vi.fn(), onError }, { ...options, realtime: null, fetchStatus });
+
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(fetchStatus).toHaveBeenCalledTimes(3);
+    expect(onError).toHaveBeenCalledExactlyOnceWith(error);
+  });
+
+  it('gives up right away on a client error', async () => {
+    const onError = vi.fn();
+    const fetchStatus = vi.fn().mockRejectedValue(new ClientHttpError('Not found', 404));
+    subscribeToJob('p1', { onUpdate: vi.fn(), onError }, { ...options, realtime: null, fetchStatus });
+
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(fetchStatus).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps polling while rate limited', async () => {
+    const onUpdate = vi.fn();
+    const onError = vi.fn();
+    const fetchStatus = vi
+      .fn()
+      .mockRejectedValueOnce(new ClientHttpError('Too many status requests', 429))
+      .mockRejectedValueOnce(new ClientHttpError('Too many status requests', 429))
+      .mockResolvedValue(response('succeeded'));
+    subscribeToJob('p1', { onUpdate, onError }, { ...options, realtime: null, fetchStatus });
+
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(onError).not.toHaveBeenCalled();
+    expect(onUpdate).toHaveBeenCalledExactlyOnceWith(expect.objectContaining({ status: 'succeeded' }));
+  });
+});
+
+describe('subscribeToJob realtime', () => {
+  it('delivers pushed rows and only polls at the heartbeat interval while connected', async () => {
+    const realtime = manualRealtime();
+    const onUpdate = vi.fn();
+    const fetchStatus = statusSequence('starting');
+    const stop = subscribeToJob('p1', { onUpdate }, { ...options, realtime: realtime.source, fetchStatus });
+
+    await vi.advanceTimersByTimeAsync(0);
+    realtime.setState('subscribed');
+    realtime.push(row('processing'));
+    await vi.advanceTimersByTimeAsync(19999);
+
+    expect(fetchStatus).toHaveBeenCalledTimes(1);
+    expect(onUpdate.mock.calls.map(([update]) => update.status)).toEqual(['starting', 'processing']);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchStatus).toHaveBeenCalledTimes(2);
+
+    stop();
+    expect(realtime.unsubscribe).toHaveBeenCalled();
+  });
+
+  it('stops at a terminal status pushed through realtime', async () => {
+    const realtime = manualRealtime();
+    const onUpdate = vi.fn();
+    const fetchStatus = statusSequence('processing');
+    subscribeToJob('p1', { onUpdate }, { ...options, realtime: realtime.source, fetchStatus });
+
+    await vi.advanceTimersByTimeAsync(0);
+    realtime.setState('subscribed');
+    realtime.push(row('succeeded', ['out.png']));
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(onUpdate).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'succeeded', output: ['out.png'] }));
+    expect(fetchStatus).toHaveBeenCalledTimes(1);
+    expect(realtime.unsubscribe).toHaveBeenCalled();
+  });
+
+  it('falls back to polling when the channel fails', async () => {
+    const realtime = manualRealtime();
+    const fetchStatus = statusSequence('processing');
+    const stop = subscribeToJob('p1', { onUpdate: vi.fn() }, { ...options, realtime: realtime.source, fetchStatus });
+
+    await vi.advanceTimersByTimeAsync(0);
+    realtime.setState('subscribed');
+    realtime.setState('failed');
+
+    expect(realtime.unsubscribe).toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchStatus).toHaveBeenCalledTimes(2);
+
+    stop();
+  });
+
+  it('falls back to polling when the channel does not connect in time', async () => {
+    const realtime = manualRealtime();
+    const fetchStatus = statusSequence('processing');
+    const stop = subscribeToJob('p1', { onUpdate: vi.fn() }, { ...options, realtime: realtime.source, fetchStatus });
+
+    // Until the timeout, the backed-off polls still run
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(realtime.unsubscribe).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(realtime.unsubscribe).toHaveBeenCalled();
+    const pollsAtFallback = fetchStatus.mock.calls.length;
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchStatus).toHaveBeenCalledTimes(pollsAtFallback + 1);
+
+    stop();
+  });
+});
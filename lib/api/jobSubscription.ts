@@ -0,0 +1,223 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isMockBackend, isSupabaseConfigured } from '@/lib/config';
+import { supabase } from '@/lib/supabase';
+import { checkJobStatus, isTerminalStatus, type StatusResponse } from './matchingSet';
+import { ClientHttpError, ConfigError, isAbortError } from './errors';
+import type { RequestOptions } from './client';
+
+/**
+ * Row written by the edge function's webhook for every prediction update
+ */
+export type PredictionRow = StatusResponse['data'];
+
+export interface JobUpdate extends PredictionRow {
+  /** Backend status message, only available from status polls */
+  message?: string;
+}
+
+export type RealtimeState = 'subscribed' | 'failed';
+
+/**
+ * Push source for prediction updates. The default implementation uses Supabase
+ * Realtime; tests and local setups can pass any object with this shape.
+ */
+export interface RealtimeSource {
+  subscribe(
+    predictionId: string,
+    onRow: (row: PredictionRow) => void,
+    onState: (state: RealtimeState) => void
+  ): () => void;
+}
+
+export interface JobSubscriptionHandlers {
+  onUpdate: (update: JobUpdate) => void;
+  /** Called once when tracking gives up; the job may still be running on the backend */
+  onError?: (error: unknown) => void;
+}
+
+export interface JobSubscriptionOptions {
+  /** Push source, or null to only poll (default: Supabase Realtime when configured) */
+  realtime?: RealtimeSource | null;
+  /** Status fetcher used for the initial sync and polling (default: checkJobStatus) */
+  fetchStatus?: (predictionId: string, options: RequestOptions) => Promise<StatusResponse>;
+  /** First polling interval, also used after every status change (default: 2000) */
+  minIntervalMs?: number;
+  /** Longest polling interval while the status stays the same (default: 15000) */
+  maxIntervalMs?: number;
+  /** Safety poll interval while realtime is connected, in case an event is missed (default: 30000) */
+  heartbeatMs?: number;
+  /** How long to wait for the realtime channel before falling back to polling (default: 5000) */
+  realtimeTimeoutMs?: number;
+}
+
+const PREDICTIONS_TABLE = process.env.NEXT_PUBLIC_SUPABASE_PREDICTIONS_TABLE || 'predictions';
+const BACKOFF_FACTOR = 1.5;
+// Consecutive failed polls (each already retried by the client) before tracking gives up
+const MAX_POLL_FAILURES = 3;
+
+/**
+ * Realtime source backed by postgres changes on the predictions table
+ */
+export function createSupabaseRealtimeSource(client: SupabaseClient, table: string = PREDICTIONS_TABLE): RealtimeSource {
+  return {
+    subscribe(predictionId, onRow, onState) {
+      const channel = client
+        .channel(`prediction-${predictionId}`)
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table, filter: `prediction_id=eq.${predictionId}` },
+          (payload) => {
+            if (payload.new && 'prediction_id' in payload.new) {
+              onRow(payload.new as PredictionRow);
+            }
+          }
+        )
+        .subscribe((state) => {
+          if (state === 'SUBSCRIBED') {
+            onState('subscribed');
+          } else {
+            // CHANNEL_ERROR, TIMED_OUT and CLOSED all mean no more pushes are coming
+            onState('failed');
+          }
+        });
+
+      return () => {
+        client.removeChannel(channel);
+      };
+    },
+  };
+}
+
+// Mock jobs never reach the predictions table, so they are always polled
+const defaultRealtimeSource = isSupabaseConfigured && !isMockBackend ? createSupabaseRealtimeSource(supabase) : null;
+
+/**
+ * Track a prediction until it reaches a terminal status. Updates are pushed through
+ * the realtime source when it connects; otherwise the status is polled with an
+ * interval that backs off while nothing changes.
+ * @returns Function that stops tracking
+ */
+export function subscribeToJob(
+  predictionId: string,
+  handlers: JobSubscriptionHandlers,
+  options: JobSubscriptionOptions = {}
+): () => void {
+  const {
+    realtime = defaultRealtimeSource,
+    fetchStatus = checkJobStatus,
+    minIntervalMs = 2000,
+    maxIntervalMs = 15000,
+    heartbeatMs = 30000,
+    realtimeTimeoutMs = 5000,
+  } = options;
+
+  const controller = new AbortController();
+  let stopped = false;
+  let realtimeConnected = false;
+  let lastStatus: string | null = null;
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+  let realtimeTimer: ReturnType<typeof setTimeout> | null = null;
+  let unsubscribeRealtime: (() => void) | null = null;
+  let intervalMs = minIntervalMs;
+  let consecutiveFailures = 0;
+  let inFlight = false;
+
+  // Removing a channel reports CLOSED synchronously, so clear the handle before calling it
+  const closeRealtime = () => {
+    const unsubscribe = unsubscribeRealtime;
+    unsubscribeRealtime = null;
+    unsubscribe?.();
+  };
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    controller.abort();
+    if (pollTimer) clearTimeout(pollTimer);
+    if (realtimeTimer) clearTimeout(realtimeTimer);
+    closeRealtime();
+  };
+
+  const deliver = (update: JobUpdate) => {
+    if (stopped) return;
+    if (update.status !== lastStatus) {
+      lastStatus = update.status;
+      // Something is happening, so check again soon
+      intervalMs = minIntervalMs;
+    }
+    handlers.onUpdate(update);
+    if (isTerminalStatus(update.status) || update.error) {
+      stop();
+    }
+  };
+
+  const scheduleNextPoll = () => {
+    if (stopped) return;
+    if (pollTimer) clearTimeout(pollTimer);
+    pollTimer = setTimeout(poll, realtimeConnected ? heartbeatMs : intervalMs);
+  };
+
+  async function poll() {
+    if (stopped || inFlight) return;
+    inFlight = true;
+    const statusBefore = lastStatus;
+    try {
+      const response = await fetchStatus(predictionId, { signal: controller.signal });
+      consecutiveFailures = 0;
+      deliver({ ...response.data, message: response.message });
+      if (lastStatus === statusBefore) {
+        intervalMs = Math.min(maxIntervalMs, intervalMs * BACKOFF_FACTOR);
+      }
+    } catch (err) {
+      if (isAbortError(err) || stopped) return;
+      console.error('Error polling status:', err);
+      consecutiveFailures++;
+      // Only give up on errors that won't go away by themselves; being rate limited passes
+      const isPermanent = (err instanceof ClientHttpError && err.status !== 429) || err instanceof ConfigError;
+      if (isPermanent || consecutiveFailures >= MAX_POLL_FAILURES) {
+        stop();
+        handlers.onError?.(err);
+        return;
+      }
+      intervalMs = Math.min(maxIntervalMs, intervalMs * BACKOFF_FACTOR);
+    } finally {
+      inFlight = false;
+    }
+    scheduleNextPoll();
+  }
+
+  const fallBackToPolling = () => {
+    if (stopped || (!realtimeConnected && !unsubscribeRealtime)) return;
+    realtimeConnected = false;
+    if (realtimeTimer) clearTimeout(realtimeTimer);
+    closeRealtime();
+    intervalMs = minIntervalMs;
+    scheduleNextPoll();
+  };
+
+  if (realtime) {
+    unsubscribeRealtime = realtime.subscribe(
+      predictionId,
+      (row) => deliver(row),
+      (state) => {
+        if (stopped) return;
+        if (state === 'subscribed') {
+          realtimeConnected = true;
+          if (realtimeTimer) clearTimeout(realtimeTimer);
+          // Slow down to heartbeat polling now that updates are pushed
+          scheduleNextPoll();
+        } else {
+          fallBackToPolling();
+        }
+      }
+    );
+    realtimeTimer = setTimeout(() => {
+      if (!realtimeConnected) fallBackToPolling();
+    }, realtimeTimeoutMs);
+  }
+
+  // Sync immediately in case the job changed before the channel was ready
+  poll();
+
+  return stop;
+}
@@ -1,13 +1,36 @@
-const SUPABASE_FUNCTION_URL = process.env.NEXT_PUBLIC_SUPABASE_URL 
-  ? `${process.env.NEXT_PUBLIC_SUPABASE_URL}/functions/v1/generate-matching-set`
-  : '';
+import { MAX_PROMPT_LENGTH, MAX_SEED } from '@/lib/config';
+import { authHeaders } from './auth';
+import { requestJson, type RequestOptions } from './client';
+import { ValidationError } from './errors';
+
+// The browser only talks to our own routes, which forward to the edge function (see app/api/try-on)
+const TRY_ON_API_URL = '/api/try-on';
+
+// Status polls are idempotent, so a flaky request is retried before giving up
+const STATUS_RETRIES = 3;
+
+/**
+ * Lifecycle of a prediction on the backend
+ */
+export type JobStatus = 'starting' | 'processing' | 'succeeded' | 'failed' | 'canceled';
+
+/**
+ * Envelope status of every edge function response
+ */
+export type ResponseStatus = 'success' | 'error';
+
+export const TERMINAL_JOB_STATUSES: readonly JobStatus[] = ['succeeded', 'failed', 'canceled'];
+
+export function isTerminalStatus(status: JobStatus): boolean {
+  return TERMINAL_JOB_STATUSES.includes(status);
+}
 
 export interface GenerateMatchingSetResponse {
-  status: string;
+  status: ResponseStatus;
   message: string;
   data: {
     prediction_id: string;
-    status: string;
+    status: JobStatus;
     model_image_url: string;
     clothing_images: {
       top_image?: string;
@@ -16,17 +39,16 @@ export interface GenerateMatchingSetResponse {
       dress_image?: string;
     };
     num_outputs: number;
-    webhook_url: string;
-    note: string;
+    seed?: number | null;
   };
 }
 
 export interface StatusResponse {
-  status: string;
+  status: ResponseStatus;
   message: string;
   data: {
     prediction_id: string;
-    status: string;
+    status: JobStatus;
     output: string | string[] | null;
     error: string | null;
     created_at: string;
@@ -42,23 +64,81 @@ export interface ClothingImages {
   dress_image?: File;
 }
 
+export type BackgroundPreset = 'original' | 'studio-white' | 'studio-grey' | 'outdoor';
+export type Lighting = 'soft' | 'natural' | 'dramatic';
+export type GarmentFit = 'slim' | 'regular' | 'relaxed' | 'oversized';
+export type TuckStyle = 'tucked' | 'untucked';
+
+/**
+ * Structured style options. Unset options are left to the backend.
+ */
+export interface StyleOptions {
+  background?: BackgroundPreset;
+  lighting?: Lighting;
+  fit?: GarmentFit;
+  tuck?: TuckStyle;
+}
+
+/**
+ * Generation parameters sent alongside the images
+ */
+export interface GenerationSettings {
+  /** Number of variations to generate (1-4) */
+  numOutputs?: number;
+  /** Seed that makes a result reproducible; the backend picks one when omitted */
+  seed?: number;
+  /** Free-text instructions added to the generation prompt */
+  prompt?: string;
+  style?: StyleOptions;
+}
+
+// Form fields each style option is sent as
+const STYLE_FIELDS: Record<keyof StyleOptions, string> = {
+  background: 'background',
+  lighting: 'lighting',
+  fit: 'garment_fit',
+  tuck: 'tuck_style',
+};
+
+/**
+ * Pick a random seed so every result can be reproduced later
+ */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
 /**
  * Generate matching set by uploading images using vella-1.5 model
  */
 export async function generateMatchingSet(
   modelImage: File,
   clothingImages: ClothingImages,
-  numOutputs: number = 1
+  settings: GenerationSettings = {},
+  options: RequestOptions = {}
 ): Promise<GenerateMatchingSetResponse> {
-  if (!SUPABASE_FUNCTION_URL) {
-    throw new Error('Supabase function URL is not configured');
+  const { numOutputs = 1, seed, prompt = '', style = {} } = settings;
+
+  if (!modelImage) {
+    throw new ValidationError('A model image is required');
+  }
+  if (!Object.values(clothingImages).some(Boolean)) {
+    throw new ValidationError('At least one clothing image is required');
+  }
+  if (!Number.isInteger(numOutputs) || numOutputs < 1 || numOutputs > 4) {
+    throw new ValidationError('Number of outputs must be between 1 and 4');
+  }
+  if (seed !== undefined && (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED)) {
+    throw new ValidationError(`Seed must be a whole number between 0 and ${MAX_SEED}`);
+  }
+  if (prompt.length > MAX_PROMPT_LENGTH) {
+    throw new ValidationError(`The prompt must be at most ${MAX_PROMPT_LENGTH} characters`);
   }
 
   const formData = new FormData();
-  
+
   // Use model_image (backend also accepts base_image as fallback)
   formData.append('model_image', modelImage);
-  
+
   // Add clothing type images
   if (clothingImages.top_image) {
     formData.append('top_image', clothingImages.top_image);
@@ -72,46 +152,63 @@ export async function generateMatchingSet(
   if (clothingImages.dress_image) {
     formData.append('dress_image', clothingImages.dress_image);
   }
-  
+
   // Add num_outputs (1-4)
-  if (numOutputs >= 1 && numOutputs <= 4) {
-    formData.append('num_outputs', numOutputs.toString());
-  }
+  formData.append('num_outputs', numOutputs.toString());
 
-  const response = await fetch(`${SUPABASE_FUNCTION_URL}/remix-images`, {
-    method: 'POST',
-    body: formData,
-  });
+  if (seed !== undefined) {
+    formData.append('seed', seed.toString());
+  }
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ message: 'Unknown error' }));
-    throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+  if (prompt.trim()) {
+    formData.append('prompt', prompt.trim());
+  }
+  for (const [option, field] of Object.entries(STYLE_FIELDS) as [keyof StyleOptions, string][]) {
+    const value = style[option];
+    if (value) {
+      formData.append(field, value);
+    }
   }
 
-  return response.json();
+  // Submitting creates a new job, so it is never retried automatically
+  return requestJson<GenerateMatchingSetResponse>(
+    TRY_ON_API_URL,
+    {
+      method: 'POST',
+      headers: await authHeaders(),
+      body: formData,
+    },
+    { ...options, retries: 0 }
+  );
 }
 
 /**
  * Check the status of a matching set generation job
  */
-export async function checkJobStatus(predictionId: string): Promise<StatusResponse> {
-  if (!SUPABASE_FUNCTION_URL) {
-    throw new Error('Supabase function URL is not configured');
+export async function checkJobStatus(predictionId: string, options: RequestOptions = {}): Promise<StatusResponse> {
+  if (!predictionId) {
+    throw new ValidationError('A prediction id is required');
   }
 
-  const response = await fetch(`${SUPABASE_FUNCTION_URL}/status`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ prediction_id: predictionId }),
-  });
+  return requestJson<StatusResponse>(
+    `${TRY_ON_API_URL}/${encodeURIComponent(predictionId)}`,
+    { method: 'GET', headers: await authHeaders() },
+    { retries: STATUS_RETRIES, ...options }
+  );
+}
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ message: 'Unknown error' }));
-    throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+/**
+ * Cancel a running matching set generation job
+ */
+export async function cancelJob(predictionId: string, options: RequestOptions = {}): Promise<StatusResponse> {
+  if (!predictionId) {
+    throw new ValidationError('A prediction id is required');
   }
 
-  return response.json();
+  // Canceling twice is harmless, so it can be retried like a status check
+  return requestJson<StatusResponse>(
+    `${TRY_ON_API_URL}/${encodeURIComponent(predictionId)}`,
+    { method: 'DELETE', headers: await authHeaders() },
+    { retries: STATUS_RETRIES, ...options }
+  );
 }
-
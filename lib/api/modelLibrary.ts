@@ -0,0 +1,116 @@
+import { supabase } from '@/lib/supabase';
+import { markAsCompressed } from '@/lib/utils/imageCompression';
+import { requireUserId } from './auth';
+import { ApiError, ValidationError } from './errors';
+import { downloadImage, ensureSupabaseConfigured, removeImage, uploadImage, withSignedImageUrls } from './storage';
+
+const MODELS_TABLE = 'saved_models';
+const MODELS_BUCKET = 'models';
+
+/**
+ * A reusable model (person) photo. The stored image is already compressed for upload.
+ */
+export interface SavedModel {
+  id: string;
+  name: string;
+  body_type: string | null;
+  pose: string | null;
+  skin_tone: string | null;
+  tags: string[];
+  image_path: string;
+  /** Owner; row-level security keeps every user to their own items */
+  user_id: string;
+  created_at: string;
+  /** Signed URL for displaying the image, empty if it could not be signed */
+  image_url: string;
+}
+
+export interface NewSavedModel {
+  name: string;
+  body_type?: string | null;
+  pose?: string | null;
+  skin_tone?: string | null;
+  tags?: string[];
+}
+
+type SavedModelRow = Omit<SavedModel, 'image_url'>;
+
+/**
+ * List saved models, newest first
+ */
+export async function listSavedModels(): Promise<SavedModel[]> {
+  ensureSupabaseConfigured();
+  const userId = await requireUserId();
+
+  const { data, error } = await supabase
+    .from(MODELS_TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) {
+    throw new ApiError(`Failed to load saved models: ${error.message}`);
+  }
+  return withSignedImageUrls(MODELS_BUCKET, data as SavedModelRow[]);
+}
+
+/**
+ * Save a model photo to the library
+ * @param compressedImage - The photo after compressImage, stored as-is
+ */
+export async function createSavedModel(compressedImage: File, model: NewSavedModel): Promise<SavedModel> {
+  ensureSupabaseConfigured();
+
+  if (!model.name.trim()) {
+    throw new ValidationError('A name is required');
+  }
+  if (!compressedImage.type.startsWith('image/')) {
+    throw new ValidationError(`${compressedImage.name} is not an image file`);
+  }
+
+  const userId = await requireUserId();
+  const imagePath = await uploadImage(MODELS_BUCKET, 'photos', compressedImage);
+
+  const { data, error } = await supabase
+    .from(MODELS_TABLE)
+    .insert({
+      user_id: userId,
+      name: model.name.trim(),
+      body_type: model.body_type || null,
+      pose: model.pose || null,
+      skin_tone: model.skin_tone || null,
+      tags: model.tags || [],
+      image_path: imagePath,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Don't leave an orphaned image behind
+    await removeImage(MODELS_BUCKET, imagePath);
+    throw new ApiError(`Failed to save model: ${error.message}`);
+  }
+
+  const [created] = await withSignedImageUrls(MODELS_BUCKET, [data as SavedModelRow]);
+  return created;
+}
+
+/**
+ * Remove a saved model and its stored photo
+ */
+export async function deleteSavedModel(model: SavedModel): Promise<void> {
+  ensureSupabaseConfigured();
+
+  const { error } = await supabase.from(MODELS_TABLE).delete().eq('id', model.id);
+  if (error) {
+    throw new ApiError(`Failed to delete model: ${error.message}`);
+  }
+  await removeImage(MODELS_BUCKET, model.image_path);
+}
+
+/**
+ * Download a saved model's photo. It is marked as compressed so it is uploaded without re-encoding.
+ */
+export async function fetchSavedModelFile(model: SavedModel): Promise<File> {
+  ensureSupabaseConfigured();
+  return markAsCompressed(await downloadImage(MODELS_BUCKET, model.image_path, model.name));
+}
@@ -0,0 +1,70 @@
+import { isSupabaseConfigured } from '@/lib/config';
+import { supabase } from '@/lib/supabase';
+import { requireUserId } from './auth';
+import { ApiError, ConfigError, NetworkError } from './errors';
+
+// Library images live in private buckets, so they are shown through short-lived signed URLs
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export function ensureSupabaseConfigured(): void {
+  if (!isSupabaseConfigured) {
+    throw new ConfigError('Supabase is not configured');
+  }
+}
+
+/**
+ * Attach a signed `image_url` to every row with an `image_path` in the bucket
+ */
+export async function withSignedImageUrls<T extends { image_path: string }>(
+  bucket: string,
+  rows: T[]
+): Promise<(T & { image_url: string })[]> {
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUrls(rows.map((row) => row.image_path), SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    throw new ApiError(`Failed to load images: ${error.message}`);
+  }
+
+  const urls = new Map(data.map((entry) => [entry.path, entry.signedUrl]));
+  return rows.map((row) => ({ ...row, image_url: urls.get(row.image_path) || '' }));
+}
+
+/**
+ * Upload an image under `<user id>/<folder>/<uuid>.<ext>` and return its storage path.
+ * The bucket policies only let users reach paths under their own id.
+ */
+export async function uploadImage(bucket: string, folder: string, image: File): Promise<string> {
+  const userId = await requireUserId();
+  const extension = image.name.includes('.') ? image.name.split('.').pop() : 'jpg';
+  const imagePath = `${userId}/${folder}/${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage.from(bucket).upload(imagePath, image, { contentType: image.type });
+  if (error) {
+    throw new ApiError(`Failed to upload image: ${error.message}`);
+  }
+  return imagePath;
+}
+
+export async function removeImage(bucket: string, imagePath: string): Promise<void> {
+  const { error } = await supabase.storage.from(bucket).remove([imagePath]);
+  if (error) {
+    console.warn('Failed to remove image:', error);
+  }
+}
+
+/**
+ * Download a stored image as a File named after the library item
+ */
+export async function downloadImage(bucket: string, imagePath: string, name: string): Promise<File> {
+  const { data, error } = await supabase.storage.from(bucket).download(imagePath);
+  if (error || !data) {
+    throw new NetworkError(`Failed to download ${name}`, { cause: error });
+  }
+
+  const extension = imagePath.split('.').pop();
+  return new File([data], `${name}.${extension}`, { type: data.type || 'image/jpeg' });
+}
@@ -0,0 +1,120 @@
+import { supabase } from '@/lib/supabase';
+import type { ClothingType } from '@/lib/utils/clothingSlots';
+import { requireUserId } from './auth';
+import { ApiError, ValidationError } from './errors';
+import { downloadImage, ensureSupabaseConfigured, removeImage, uploadImage, withSignedImageUrls } from './storage';
+
+const WARDROBE_TABLE = 'wardrobe_items';
+const WARDROBE_BUCKET = 'wardrobe';
+
+export type WardrobeCategory = ClothingType;
+
+export interface WardrobeItem {
+  id: string;
+  category: WardrobeCategory;
+  name: string;
+  tags: string[];
+  color: string | null;
+  brand: string | null;
+  image_path: string;
+  /** Owner; row-level security keeps every user to their own items */
+  user_id: string;
+  created_at: string;
+  /** Signed URL for displaying the image, empty if it could not be signed */
+  image_url: string;
+}
+
+export interface NewWardrobeItem {
+  category: WardrobeCategory;
+  name: string;
+  tags?: string[];
+  color?: string | null;
+  brand?: string | null;
+}
+
+type WardrobeRow = Omit<WardrobeItem, 'image_url'>;
+
+/**
+ * List wardrobe items, newest first
+ * @param category - Only return items for this garment slot
+ */
+export async function listWardrobeItems(category?: WardrobeCategory): Promise<WardrobeItem[]> {
+  ensureSupabaseConfigured();
+  const userId = await requireUserId();
+
+  let query = supabase
+    .from(WARDROBE_TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (category) {
+    query = query.eq('category', category);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new ApiError(`Failed to load wardrobe: ${error.message}`);
+  }
+  return withSignedImageUrls(WARDROBE_BUCKET, data as WardrobeRow[]);
+}
+
+/**
+ * Upload a garment image and save its metadata to the wardrobe
+ */
+export async function createWardrobeItem(image: File, item: NewWardrobeItem): Promise<WardrobeItem> {
+  ensureSupabaseConfigured();
+
+  if (!item.name.trim()) {
+    throw new ValidationError('A name is required');
+  }
+  if (!image.type.startsWith('image/')) {
+    throw new ValidationError(`${image.name} is not an image file`);
+  }
+
+  const userId = await requireUserId();
+  const imagePath = await uploadImage(WARDROBE_BUCKET, item.category, image);
+
+  const { data, error } = await supabase
+    .from(WARDROBE_TABLE)
+    .insert({
+      user_id: userId,
+      category: item.category,
+      name: item.name.trim(),
+      tags: item.tags || [],
+      color: item.color || null,
+      brand: item.brand || null,
+      image_path: imagePath,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Don't leave an orphaned image behind
+    await removeImage(WARDROBE_BUCKET, imagePath);
+    throw new ApiError(`Failed to save wardrobe item: ${error.message}`);
+  }
+
+  const [created] = await withSignedImageUrls(WARDROBE_BUCKET, [data as WardrobeRow]);
+  return created;
+}
+
+/**
+ * Remove a wardrobe item and its stored image
+ */
+export async function deleteWardrobeItem(item: WardrobeItem): Promise<void> {
+  ensureSupabaseConfigured();
+
+  const { error } = await supabase.from(WARDROBE_TABLE).delete().eq('id', item.id);
+  if (error) {
+    throw new ApiError(`Failed to delete wardrobe item: ${error.message}`);
+  }
+  await removeImage(WARDROBE_BUCKET, item.image_path);
+}
+
+/**
+ * Download a wardrobe item's image so it can fill an upload slot
+ */
+export async function fetchWardrobeItemFile(item: WardrobeItem): Promise<File> {
+  ensureSupabaseConfigured();
+  return downloadImage(WARDROBE_BUCKET, item.image_path, item.name);
+}
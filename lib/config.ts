@@ -0,0 +1,24 @@
+/**
+ * Environment flags and request limits shared by the browser code and the server routes.
+ * This module has no imports and no side effects, so server code can read them without
+ * loading the browser Supabase client.
+ */
+
+export const isSupabaseConfigured = Boolean(
+  process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+);
+
+/**
+ * Whether the server proxies to the local mock of the edge function (see app/api/mock) instead of Supabase
+ */
+export const isMockBackend = process.env.NEXT_PUBLIC_MOCK_BACKEND === 'true';
+
+/**
+ * Sign-in is only possible against a real Supabase project; without one (e.g. the mock
+ * backend) the app runs anonymously
+ */
+export const isAuthEnabled = isSupabaseConfigured;
+
+// Checked by the form before submitting and again by the try-on proxy
+export const MAX_SEED = 2 ** 32 - 1;
+export const MAX_PROMPT_LENGTH = 1000;
@@ -0,0 +1,125 @@
+import type { JobStatus, StyleOptions } from '@/lib/api/matchingSet';
+import type { ClothingType } from '@/lib/utils/clothingSlots';
+import { fetchBlob } from '@/lib/utils/resultArchive';
+
+const DB_NAME = 'wardrobe';
+const DB_VERSION = 1;
+const STORE_NAME = 'jobs';
+
+/**
+ * A generation job as recorded in the browser's local history
+ */
+export interface JobHistoryEntry {
+  predictionId: string;
+  /** Signed-in user who submitted the job; null or missing for anonymous jobs */
+  userId?: string | null;
+  status: JobStatus;
+  message: string;
+  error: string | null;
+  /** Generation settings sent with the job; missing on jobs recorded before they were tracked */
+  seed?: number | null;
+  prompt?: string;
+  style?: StyleOptions;
+  garmentSlots: ClothingType[];
+  thumbnails: {
+    model: string | null;
+    garments: Partial<Record<ClothingType, string>>;
+  };
+  output: string[];
+  /** Copies of the outputs, saved when the job succeeds because the backend deletes its files after a while */
+  outputBlobs?: Blob[];
+  createdAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  /** Local time the job was submitted, used for ordering */
+  recordedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'predictionId' });
+        store.createIndex('recordedAt', 'recordedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error('Failed to open history database'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error || new Error('History transaction failed'));
+    transaction.onabort = () => reject(transaction.error || new Error('History transaction aborted'));
+  });
+}
+
+/**
+ * Add a newly submitted job to the history
+ */
+export async function recordJob(entry: JobHistoryEntry): Promise<void> {
+  await withStore('readwrite', (store) => store.put(entry));
+}
+
+/**
+ * Merge a status update into a recorded job. Updates for unknown jobs are ignored.
+ */
+export async function updateJob(
+  predictionId: string,
+  changes: Partial<Omit<JobHistoryEntry, 'predictionId'>>
+): Promise<void> {
+  // Read and write in one transaction, so overlapping updates of the same job can't drop each other's fields
+  await withStore('readwrite', (store) => {
+    const request = store.get(predictionId);
+    request.onsuccess = () => {
+      if (request.result) {
+        store.put({ ...request.result, ...changes });
+      }
+    };
+    return request;
+  });
+}
+
+/**
+ * Download the outputs of a finished job into its history entry
+ */
+export async function storeJobOutputs(predictionId: string, urls: string[]): Promise<void> {
+  const blobs = await Promise.all(urls.map((url, index) => fetchBlob(url, `output ${index + 1}`)));
+  await updateJob(predictionId, { outputBlobs: blobs });
+}
+
+export async function getJob(predictionId: string): Promise<JobHistoryEntry | null> {
+  const entry = await withStore<JobHistoryEntry | undefined>('readonly', (store) => store.get(predictionId));
+  return entry || null;
+}
+
+/**
+ * List the jobs a user recorded in this browser, newest first. Pass null for anonymous jobs.
+ */
+export async function listJobs(userId: string | null): Promise<JobHistoryEntry[]> {
+  const entries = await withStore<JobHistoryEntry[]>('readonly', (store) => store.index('recordedAt').getAll());
+  return entries.filter((entry) => (entry.userId ?? null) === userId).reverse();
+}
+
+export async function deleteJob(predictionId: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(predictionId));
+}
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { getAuthState, getServerAuthState, subscribeToAuth, type AuthState } from '@/lib/api/auth';
+
+/**
+ * The current Supabase session. `loading` stays true until the stored session has been read.
+ */
+export function useSession(): AuthState & { userId: string | null } {
+  const state = useSyncExternalStore(subscribeToAuth, getAuthState, getServerAuthState);
+  return { ...state, userId: state.session?.user.id ?? null };
+}
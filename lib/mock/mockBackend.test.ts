@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  cancelJob,
+  createJob,
+  getJob,
+  getJobStatus,
+  parseScript,
+  setScript,
+  toStatusData,
+  type MockJob,
+} from './mockBackend';
+
+const ORIGIN = 'http://localhost:3000';
+const SUBMITTED_AT = Date.parse('2026-01-01T00:00:00.000Z');
+
+function form(fields: Record<string, string | File> = {}): FormData {
+  const data = new FormData();
+  data.set('model_image', new File(['model'], 'model.jpg', { type: 'image/jpeg' }));
+  data.set('top_image', new File(['top'], 'top.jpg', { type: 'image/jpeg' }));
+  for (const [name, value] of Object.entries(fields)) data.set(name, value);
+  return data;
+}
+
+async function submit(fields?: Record<string, string | File>, failure: string | null = null): Promise<MockJob> {
+  return createJob(form(fields), failure);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: SUBMITTED_AT });
+  setScript(parseScript({ timeline: { startingMs: 1000, processingMs: 4000 }, rules: [] }));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('mock job status', () => {
+  it('moves from starting through processing to succeeded', async () => {
+    const job = await submit();
+
+    expect(getJobStatus(job, SUBMITTED_AT)).toBe('starting');
+    expect(getJobStatus(job, SUBMITTED_AT + 999)).toBe('starting');
+    expect(getJobStatus(job, SUBMITTED_AT + 1000)).toBe('processing');
+    expect(getJobStatus(job, SUBMITTED_AT + 4999)).toBe('processing');
+    expect(getJobStatus(job, SUBMITTED_AT + 5000)).toBe('succeeded');
+  });
+
+  it('ends as failed with the scripted error', async () => {
+    const job = await submit({}, 'GPU out of memory');
+
+    expect(getJobStatus(job, SUBMITTED_AT + 4000)).toBe('processing');
+    expect(toStatusData(job, ORIGIN, SUBMITTED_AT + 5000)).toMatchObject({
+      status: 'failed',
+      output: null,
+      error: 'GPU out of memory',
+    });
+  });
+
+  it('keeps the timeline a job was submitted with', async () => {
+    const job = await submit();
+    setScript(parseScript({ timeline: { startingMs: 0, processingMs: 0 } }));
+
+    expect(getJobStatus(job, SUBMITTED_AT + 1)).toBe('starting');
+  });
+
+  it('reports timestamps and output URLs as the status endpoint does', async () => {
+    const job = await submit({ num_outputs: '2' });
+
+    expect(toStatusData(job, ORIGIN, SUBMITTED_AT + 500)).toMatchObject({
+      status: 'starting',
+      output: null,
+      started_at: null,
+      completed_at: null,
+    });
+    expect(toStatusData(job, ORIGIN, SUBMITTED_AT + 2000)).toMatchObject({
+      status: 'processing',
+      started_at: '2026-01-01T00:00:01.000Z',
+      completed_at: null,
+    });
+    expect(toStatusData(job, ORIGIN, SUBMITTED_AT + 6000)).toEqual({
+      prediction_id: job.predictionId,
+      status: 'succeeded',
+      output: [0, 1].map(
+        (index) => `${ORIGIN}/api/mock/generate-matching-set/files/${job.predictionId}/output-${index}`
+      ),
+      error: null,
+      created_at: '2026-01-01T00:00:00.000Z',
+      started_at: '2026-01-01T00:00:01.000Z',
+      completed_at: '2026-01-01T00:00:05.000Z',
+    });
+  });
+});
+
+describe('mock cancel', () => {
+  it('cancels a job that is still running', async () => {
+    const job = await submit();
+
+    cancelJob(job, SUBMITTED_AT + 2000);
+
+    expect(getJobStatus(job, SUBMITTED_AT + 10000)).toBe('canceled');
+    expect(toStatusData(job, ORIGIN, SUBMITTED_AT + 10000)).toMatchObject({
+      status: 'canceled',
+      started_at: '2026-01-01T00:00:01.000Z',
+      completed_at: '2026-01-01T00:00:02.000Z',
+    });
+  });
+
+  it('has no start time when canceled before starting', async () => {
+    const job = await submit();
+
+    cancelJob(job, SUBMITTED_AT + 500);
+
+    expect(toStatusData(job, ORIGIN, SUBMITTED_AT + 10000)).toMatchObject({ status: 'canceled', started_at: null });
+  });
+
+  it('leaves finished jobs as they are', async () => {
+    const job = await submit();
+
+    cancelJob(job, SUBMITTED_AT + 5000);
+
+    expect(getJobStatus(job, SUBMITTED_AT + 10000)).toBe('succeeded');
+  });
+});
+
+describe('mock submission', () => {
+  it('stores the job with its inputs and options', async () => {
+    const job = await submit({ num_outputs: '3', seed: '42', prompt: 'tucked in', background: 'studio-white' });
+
+    expect(getJob(job.predictionId)).toBe(job);
+    expect(job).toMatchObject({ numOutputs: 3, seed: 42, prompt: 'tucked in', style: { background: 'studio-white' } });
+    expect(Object.keys(job.inputs).sort()).toEqual(['model_image', 'top_image']);
+  });
+
+  it('derives the same seed from the same uploads', async () => {
+    const [first, second] = [await submit(), await submit()];
+
+    expect(first.seed).toBe(second.seed);
+    expect(first.predictionId).not.toBe(second.predictionId);
+  });
+
+  it.each([
+    [{ num_outputs: '5' }, 'num_outputs must be between 1 and 4'],
+    [{ seed: '-1' }, 'seed must be a whole number'],
+    [{ top_image: new File([], 'empty.jpg') }, 'At least one clothing image is required'],
+  ])('rejects invalid requests like the edge function (%o)', async (fields, message) => {
+    await expect(submit(fields)).rejects.toThrow(message);
+  });
+});
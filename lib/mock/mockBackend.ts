@@ -0,0 +1,398 @@
+import { randomUUID } from 'node:crypto';
+import type { GenerateMatchingSetResponse, JobStatus, StatusResponse } from '@/lib/api/matchingSet';
+import { isMockBackend, MAX_SEED } from '@/lib/config';
+
+/**
+ * In-memory stand-in for the `generate-matching-set` edge function, used by the route
+ * handlers under app/api/mock. Jobs follow a timeline measured from submission, so no
+ * timers are needed: the status is worked out whenever a job is read.
+ */
+
+export const MOCK_FUNCTION_PATH = '/api/mock/generate-matching-set';
+
+export type MockEndpoint = 'remix-images' | 'status' | 'cancel';
+
+/**
+ * One scripted misbehavior. Rules are matched in order and used up after `times` requests.
+ */
+export interface MockRule {
+  endpoint: MockEndpoint;
+  /** Answer with this HTTP status and an error envelope instead of handling the request */
+  httpStatus?: number;
+  message?: string;
+  /** Wait this long before answering, e.g. to trigger client timeouts */
+  delayMs?: number;
+  /** remix-images only: accept the job but end it as failed with this error */
+  failJob?: string;
+  /** Number of matching requests the rule applies to (default: 1, 0 = every request) */
+  times?: number;
+}
+
+export interface MockTimeline {
+  /** Time spent in `starting` */
+  startingMs: number;
+  /** Time spent in `processing` before the job finishes */
+  processingMs: number;
+}
+
+export interface MockScript {
+  timeline: MockTimeline;
+  rules: MockRule[];
+}
+
+export const INPUT_FIELDS = ['model_image', 'top_image', 'bottom_image', 'outer_image', 'dress_image'] as const;
+export type MockInputField = (typeof INPUT_FIELDS)[number];
+
+export interface MockInput {
+  bytes: Buffer;
+  type: string;
+}
+
+export interface MockJob {
+  predictionId: string;
+  inputs: Partial<Record<MockInputField, MockInput>>;
+  numOutputs: number;
+  seed: number;
+  prompt: string;
+  /** Style fields as sent, e.g. `background: studio-white` */
+  style: Record<string, string>;
+  timeline: MockTimeline;
+  /** Error the job ends with, set by a `failJob` rule */
+  failure: string | null;
+  createdAt: number;
+  canceledAt: number | null;
+  /** Rendered outputs by index, since rendering is the slow part */
+  outputs: Map<number, Buffer>;
+}
+
+interface MockBackendState {
+  jobs: Map<string, MockJob>;
+  script: MockScript;
+}
+
+// Old jobs are dropped so a long dev session doesn't keep every upload in memory
+const MAX_JOBS = 50;
+const STYLE_FIELD_NAMES = ['background', 'lighting', 'garment_fit', 'tuck_style'];
+
+export const STATUS_MESSAGES: Record<JobStatus, string> = {
+  starting: 'Mock prediction is starting',
+  processing: 'Mock prediction is processing',
+  succeeded: 'Mock prediction succeeded',
+  failed: 'Mock prediction failed',
+  canceled: 'Mock prediction was canceled',
+};
+
+/**
+ * Thrown for requests the real function would reject; the route answers with `status`
+ */
+export class MockRequestError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'MockRequestError';
+    this.status = status;
+  }
+}
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function defaultScript(): MockScript {
+  const script: MockScript = {
+    timeline: {
+      startingMs: readNumber(process.env.MOCK_BACKEND_STARTING_MS, 2000),
+      processingMs: readNumber(process.env.MOCK_BACKEND_PROCESSING_MS, 8000),
+    },
+    rules: [],
+  };
+  if (process.env.MOCK_BACKEND_SCRIPT) {
+    try {
+      return parseScript(JSON.parse(process.env.MOCK_BACKEND_SCRIPT), script);
+    } catch (err) {
+      console.warn('Ignoring invalid MOCK_BACKEND_SCRIPT:', err);
+    }
+  }
+  return script;
+}
+
+// Dev reloads can evaluate this module more than once, so the state lives on globalThis
+const globalForMock = globalThis as typeof globalThis & { mockBackend?: MockBackendState };
+
+function getState(): MockBackendState {
+  if (!globalForMock.mockBackend) {
+    globalForMock.mockBackend = { jobs: new Map(), script: defaultScript() };
+  }
+  return globalForMock.mockBackend;
+}
+
+/**
+ * Validate a script (as posted to the script route or set in MOCK_BACKEND_SCRIPT),
+ * filling anything missing from `base`
+ */
+export function parseScript(value: unknown, base: MockScript = getState().script): MockScript {
+  if (!value || typeof value !== 'object') {
+    throw new MockRequestError('The script must be a JSON object');
+  }
+  const { timeline = {}, rules = [] } = value as { timeline?: Partial<MockTimeline>; rules?: unknown };
+  if (!Array.isArray(rules)) {
+    throw new MockRequestError('`rules` must be an array');
+  }
+  for (const rule of rules as MockRule[]) {
+    if (!rule || !['remix-images', 'status', 'cancel'].includes(rule.endpoint)) {
+      throw new MockRequestError('Every rule needs an `endpoint` of remix-images, status or cancel');
+    }
+    if (rule.httpStatus !== undefined && (!Number.isInteger(rule.httpStatus) || rule.httpStatus < 400 || rule.httpStatus > 599)) {
+      throw new MockRequestError('`httpStatus` must be an error status between 400 and 599');
+    }
+  }
+  return {
+    timeline: {
+      startingMs: readNumber(timeline.startingMs?.toString(), base.timeline.startingMs),
+      processingMs: readNumber(timeline.processingMs?.toString(), base.timeline.processingMs),
+    },
+    rules: (rules as MockRule[]).map((rule) => ({ ...rule })),
+  };
+}
+
+export function getScript(): MockScript {
+  return getState().script;
+}
+
+export function setScript(script: MockScript): void {
+  getState().script = script;
+}
+
+export function resetScript(): MockScript {
+  const script = defaultScript();
+  setScript(script);
+  return script;
+}
+
+/**
+ * Take the next rule for an endpoint, using it up when its count runs out
+ */
+function takeRule(endpoint: MockEndpoint): MockRule | null {
+  const { rules } = getState().script;
+  const index = rules.findIndex((rule) => rule.endpoint === endpoint);
+  if (index === -1) return null;
+
+  const rule = rules[index];
+  const times = rule.times ?? 1;
+  if (times === 1) {
+    rules.splice(index, 1);
+  } else if (times > 1) {
+    rules[index] = { ...rule, times: times - 1 };
+  }
+  return rule;
+}
+
+// FNV-1a, so a job without a seed still renders the same for the same uploads
+function hashBytes(hash: number, bytes: Uint8Array): number {
+  for (const byte of bytes) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a job from the same FormData the edge function's `/remix-images` accepts
+ */
+export async function createJob(form: FormData, failure: string | null): Promise<MockJob> {
+  const inputs: MockJob['inputs'] = {};
+  for (const field of INPUT_FIELDS) {
+    // The edge function also accepts base_image in place of model_image
+    const value = form.get(field) ?? (field === 'model_image' ? form.get('base_image') : null);
+    if (value instanceof File && value.size > 0) {
+      inputs[field] = { bytes: Buffer.from(await value.arrayBuffer()), type: value.type || 'application/octet-stream' };
+    }
+  }
+
+  if (!inputs.model_image) {
+    throw new MockRequestError('model_image is required');
+  }
+  if (!INPUT_FIELDS.some((field) => field !== 'model_image' && inputs[field])) {
+    throw new MockRequestError('At least one clothing image is required');
+  }
+
+  const numOutputs = Number(form.get('num_outputs') ?? 1);
+  if (!Number.isInteger(numOutputs) || numOutputs < 1 || numOutputs > 4) {
+    throw new MockRequestError('num_outputs must be between 1 and 4');
+  }
+
+  const seedField = form.get('seed');
+  let seed: number;
+  if (typeof seedField === 'string' && seedField !== '') {
+    seed = Number(seedField);
+    if (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) {
+      throw new MockRequestError(`seed must be a whole number between 0 and ${MAX_SEED}`);
+    }
+  } else {
+    seed = Object.values(inputs).reduce((hash, input) => hashBytes(hash, input.bytes), 0x811c9dc5);
+  }
+
+  const style: Record<string, string> = {};
+  for (const name of STYLE_FIELD_NAMES) {
+    const value = form.get(name);
+    if (typeof value === 'string' && value) style[name] = value;
+  }
+
+  const prompt = form.get('prompt');
+  const job: MockJob = {
+    predictionId: `mock-${randomUUID()}`,
+    inputs,
+    numOutputs,
+    seed,
+    prompt: typeof prompt === 'string' ? prompt : '',
+    style,
+    timeline: { ...getState().script.timeline },
+    failure,
+    createdAt: Date.now(),
+    canceledAt: null,
+    outputs: new Map(),
+  };
+
+  const { jobs } = getState();
+  jobs.set(job.predictionId, job);
+  for (const id of jobs.keys()) {
+    if (jobs.size <= MAX_JOBS) break;
+    jobs.delete(id);
+  }
+  return job;
+}
+
+export function getJob(predictionId: string): MockJob | null {
+  return getState().jobs.get(predictionId) ?? null;
+}
+
+function startedAt(job: MockJob): number {
+  return job.createdAt + job.timeline.startingMs;
+}
+
+function finishedAt(job: MockJob): number {
+  return startedAt(job) + job.timeline.processingMs;
+}
+
+export function getJobStatus(job: MockJob, now: number = Date.now()): JobStatus {
+  if (job.canceledAt !== null) return 'canceled';
+  if (now >= finishedAt(job)) return job.failure ? 'failed' : 'succeeded';
+  return now >= startedAt(job) ? 'processing' : 'starting';
+}
+
+/**
+ * Cancel a job that hasn't finished yet; finished jobs are left as they are
+ */
+export function cancelJob(job: MockJob, now: number = Date.now()): void {
+  const status = getJobStatus(job, now);
+  if (status === 'starting' || status === 'processing') {
+    job.canceledAt = now;
+  }
+}
+
+export function fileUrl(origin: string, predictionId: string, name: string): string {
+  return `${origin}${MOCK_FUNCTION_PATH}/files/${encodeURIComponent(predictionId)}/${name}`;
+}
+
+/**
+ * The job as `/status` and `/cancel` report it
+ */
+export function toStatusData(job: MockJob, origin: string, now: number = Date.now()): StatusResponse['data'] {
+  const status = getJobStatus(job, now);
+  const completedAt = job.canceledAt ?? (status === 'succeeded' || status === 'failed' ? finishedAt(job) : null);
+  return {
+    prediction_id: job.predictionId,
+    status,
+    output: status === 'succeeded'
+      ? Array.from({ length: job.numOutputs }, (_, index) => fileUrl(origin, job.predictionId, `output-${index}`))
+      : null,
+    error: status === 'failed' ? job.failure : null,
+    created_at: new Date(job.createdAt).toISOString(),
+    started_at: status === 'starting' || (job.canceledAt !== null && job.canceledAt < startedAt(job))
+      ? null
+      : new Date(startedAt(job)).toISOString(),
+    completed_at: completedAt !== null ? new Date(completedAt).toISOString() : null,
+  };
+}
+
+/**
+ * The job as `/remix-images` reports it right after submission
+ */
+export function toSubmitData(
+  job: MockJob,
+  origin: string
+): GenerateMatchingSetResponse['data'] & { webhook_url: string; note: string } {
+  const clothing: GenerateMatchingSetResponse['data']['clothing_images'] = {};
+  for (const field of ['top_image', 'bottom_image', 'outer_image', 'dress_image'] as const) {
+    if (job.inputs[field]) clothing[field] = fileUrl(origin, job.predictionId, field);
+  }
+  return {
+    prediction_id: job.predictionId,
+    status: getJobStatus(job),
+    model_image_url: fileUrl(origin, job.predictionId, 'model_image'),
+    clothing_images: clothing,
+    num_outputs: job.numOutputs,
+    seed: job.seed,
+    webhook_url: '',
+    note: 'Served by the local mock backend; outputs are placeholders',
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Error envelope in the edge function's format
+ */
+export function errorResponse(message: string, status: number): Response {
+  return Response.json({ status: 'error', message }, { status });
+}
+
+/**
+ * Read the `prediction_id` that `/status` and `/cancel` are posted with
+ */
+export async function readPredictionId(request: Request): Promise<MockJob> {
+  const body = await request.json().catch(() => null);
+  const predictionId = body && typeof body === 'object' && 'prediction_id' in body ? body.prediction_id : null;
+  if (typeof predictionId !== 'string' || !predictionId) {
+    throw new MockRequestError('prediction_id is required');
+  }
+  const job = getJob(predictionId);
+  if (!job) {
+    throw new MockRequestError('Prediction not found', 404);
+  }
+  return job;
+}
+
+/**
+ * Shared wrapper of the mock routes: 404 unless mock mode is on, then apply the next
+ * scripted rule for the endpoint before handing over to `handle`
+ */
+export async function handleMockRequest(
+  endpoint: MockEndpoint,
+  handle: (rule: MockRule | null) => Promise<Response>
+): Promise<Response> {
+  if (!isMockBackend) {
+    return errorResponse('The mock backend is disabled. Set NEXT_PUBLIC_MOCK_BACKEND=true to use it.', 404);
+  }
+
+  const rule = takeRule(endpoint);
+  if (rule?.delayMs) {
+    await sleep(rule.delayMs);
+  }
+  if (rule?.httpStatus) {
+    return errorResponse(rule.message || `Injected ${rule.httpStatus} error`, rule.httpStatus);
+  }
+
+  try {
+    return await handle(rule);
+  } catch (err) {
+    if (err instanceof MockRequestError) {
+      return errorResponse(err.message, err.status);
+    }
+    throw err;
+  }
+}
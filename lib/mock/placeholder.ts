@@ -0,0 +1,110 @@
+import type sharp from 'sharp';
+import type { MockInputField, MockJob } from './mockBackend';
+
+const WIDTH = 768;
+const HEIGHT = 1024;
+const THUMB_SIZE = 160;
+const MARGIN = 20;
+const LABEL_HEIGHT = 112;
+const GARMENT_FIELDS: MockInputField[] = ['top_image', 'bottom_image', 'outer_image', 'dress_image'];
+
+type SharpModule = typeof sharp;
+
+let sharpModule: Promise<SharpModule> | null = null;
+
+// sharp is a native dev dependency that only the mock needs, so production installs never load it
+function loadSharp(): Promise<SharpModule> {
+  sharpModule ??= import('sharp').then(
+    (module) => module.default,
+    (err) => {
+      sharpModule = null;
+      throw new Error('The mock backend needs the sharp package. Install the dev dependencies with npm install.', { cause: err });
+    }
+  );
+  return sharpModule;
+}
+
+const escapeXml = (value: string): string =>
+  value.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const truncate = (value: string, length: number): string =>
+  value.length > length ? `${value.slice(0, length - 1)}…` : value;
+
+/**
+ * Accent color for one output, so variations of a job are easy to tell apart
+ */
+function accentColor(seed: number, index: number): string {
+  const hue = (seed + index * 97) % 360;
+  return `hsl(${hue}, 70%, 40%)`;
+}
+
+// Undecodable uploads are skipped rather than failing the whole output
+async function resizeInput(
+  sharp: SharpModule,
+  bytes: Buffer,
+  width: number,
+  height: number,
+  fit: 'cover' | 'contain'
+): Promise<Buffer | null> {
+  try {
+    return await sharp(bytes)
+      .rotate()
+      .resize(width, height, { fit, background: '#ffffff' })
+      .flatten({ background: '#ffffff' })
+      .png()
+      .toBuffer();
+  } catch (err) {
+    console.warn('Mock backend could not decode an upload:', err);
+    return null;
+  }
+}
+
+/**
+ * Render a placeholder output: the model photo with the garments pinned to its side
+ * and a label with the job's settings. The same job and index always give the same image.
+ */
+export async function renderPlaceholder(job: MockJob, index: number): Promise<Buffer> {
+  const sharp = await loadSharp();
+  const accent = accentColor(job.seed, index);
+  const layers: sharp.OverlayOptions[] = [];
+
+  const model = job.inputs.model_image
+    ? await resizeInput(sharp, job.inputs.model_image.bytes, WIDTH, HEIGHT, 'cover')
+    : null;
+  if (model) {
+    layers.push({ input: model, top: 0, left: 0 });
+  }
+
+  const garments = GARMENT_FIELDS.filter((field) => job.inputs[field]);
+  for (const [position, field] of garments.entries()) {
+    const thumb = await resizeInput(sharp, job.inputs[field]!.bytes, THUMB_SIZE, THUMB_SIZE, 'contain');
+    if (!thumb) continue;
+    const top = MARGIN + position * (THUMB_SIZE + MARGIN);
+    const left = WIDTH - THUMB_SIZE - MARGIN;
+    const frame = Buffer.from(
+      `<svg width="${THUMB_SIZE + 8}" height="${THUMB_SIZE + 8}"><rect width="100%" height="100%" rx="8" fill="${accent}"/></svg>`
+    );
+    layers.push({ input: frame, top: top - 4, left: left - 4 }, { input: thumb, top, left });
+  }
+
+  const details = [
+    garments.map((field) => field.replace('_image', '')).join(' + '),
+    ...Object.entries(job.style).map(([name, value]) => `${name}: ${value}`),
+  ].join(' · ');
+  const label = Buffer.from(`
+    <svg width="${WIDTH}" height="${LABEL_HEIGHT}">
+      <rect width="100%" height="100%" fill="${accent}" fill-opacity="0.85"/>
+      <g font-family="sans-serif" fill="#ffffff">
+        <text x="${MARGIN}" y="36" font-size="24" font-weight="bold">MOCK OUTPUT ${index + 1}/${job.numOutputs} · seed ${job.seed}</text>
+        <text x="${MARGIN}" y="66" font-size="18">${escapeXml(truncate(details, 70))}</text>
+        <text x="${MARGIN}" y="94" font-size="16" font-style="italic">${escapeXml(truncate(job.prompt, 80))}</text>
+      </g>
+    </svg>
+  `);
+  layers.push({ input: label, top: HEIGHT - LABEL_HEIGHT, left: 0 });
+
+  return sharp({ create: { width: WIDTH, height: HEIGHT, channels: 3, background: '#d1d5db' } })
+    .composite(layers)
+    .jpeg({ quality: 85 })
+    .toBuffer();
+}
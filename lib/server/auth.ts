@@ -0,0 +1,76 @@
+import { createClient, type SupabaseClient, type User } from '@supabase/supabase-js';
+import { isAuthEnabled } from '@/lib/config';
+import { ProxyError } from './edgeFunction';
+
+const JOBS_TABLE = 'try_on_jobs';
+
+/**
+ * The user behind a proxy request, with a Supabase client acting as them so
+ * row-level security applies to everything it reads and writes
+ */
+export interface RequestUser {
+  user: User;
+  client: SupabaseClient;
+}
+
+function bearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization');
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Verify the request's access token. Returns null for anonymous requests; an invalid
+ * or expired token is an error rather than silently anonymous.
+ */
+export async function getRequestUser(request: Request): Promise<RequestUser | null> {
+  const token = bearerToken(request);
+  if (!token || !isAuthEnabled) return null;
+
+  const client = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: { headers: { Authorization: `Bearer ${token}` } },
+  });
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data.user) {
+    throw new ProxyError('Your session has expired. Sign in again.', 401);
+  }
+  return { user: data.user, client };
+}
+
+/**
+ * Like getRequestUser, but signing in is required whenever auth is enabled
+ */
+export async function requireRequestUser(request: Request, action: string): Promise<RequestUser | null> {
+  const requestUser = await getRequestUser(request);
+  if (!requestUser && isAuthEnabled) {
+    throw new ProxyError(`Sign in to ${action}`, 401);
+  }
+  return requestUser;
+}
+
+/**
+ * Record who submitted a prediction, so only they can cancel it
+ */
+export async function recordJobOwner({ user, client }: RequestUser, predictionId: string): Promise<void> {
+  const { error } = await client.from(JOBS_TABLE).insert({ prediction_id: predictionId, user_id: user.id });
+  if (error) {
+    // The job is running either way; its owner just can't be checked later
+    console.error(`Failed to record the owner of ${predictionId}:`, error);
+  }
+}
+
+/**
+ * Throw unless the prediction was submitted by this user
+ */
+export async function ensureJobOwner({ client }: RequestUser, predictionId: string): Promise<void> {
+  // Row-level security only returns the user's own rows
+  const { data, error } = await client.from(JOBS_TABLE).select('prediction_id').eq('prediction_id', predictionId).maybeSingle();
+  if (error) {
+    console.error(`Failed to check the owner of ${predictionId}:`, error);
+    throw new ProxyError('Could not verify who owns this try-on', 503);
+  }
+  if (!data) {
+    throw new ProxyError('Try-on not found', 404);
+  }
+}
@@ -0,0 +1,122 @@
+import { isMockBackend } from '@/lib/config';
+import { MOCK_FUNCTION_PATH } from '@/lib/mock/mockBackend';
+
+/**
+ * Server-side access to the `generate-matching-set` edge function. Only the try-on
+ * routes call it, so its URL and key never reach the browser.
+ */
+
+export type EdgeFunctionEndpoint = 'remix-images' | 'status' | 'cancel';
+
+// Fields the edge function returns for its own bookkeeping; clients never see them
+const INTERNAL_FIELDS = ['webhook_url', 'note'];
+
+/**
+ * A proxy request that failed before or instead of reaching the edge function;
+ * the route answers with `status` and the message in the usual error envelope
+ */
+export class ProxyError extends Error {
+  readonly status: number;
+  readonly headers: Record<string, string>;
+
+  constructor(message: string, status: number, headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'ProxyError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+export interface EdgeFunctionResult {
+  status: number;
+  body: unknown;
+}
+
+// The mock routes are served by this app. Its address is configured rather than read from the
+// request's Host header, which the client controls and could point server-side fetches anywhere.
+function mockOrigin(): string {
+  return (process.env.NEXT_PUBLIC_SITE_URL || `http://localhost:${process.env.PORT || 3000}`).replace(/\/+$/, '');
+}
+
+function functionUrl(): string {
+  if (isMockBackend) {
+    return `${mockOrigin()}${MOCK_FUNCTION_PATH}`;
+  }
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+  if (!supabaseUrl) {
+    throw new ProxyError('The generation service is not configured', 503);
+  }
+  return `${supabaseUrl}/functions/v1/generate-matching-set`;
+}
+
+// The service role key lets the function verify JWTs, so it can refuse anyone but this server
+function authHeaders(): Record<string, string> {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  return key ? { Authorization: `Bearer ${key}`, apikey: key } : {};
+}
+
+/**
+ * Call the edge function and return its status and parsed body as-is, so its own
+ * error messages reach the client. Throws a ProxyError when it can't be reached.
+ */
+export async function callEdgeFunction(
+  endpoint: EdgeFunctionEndpoint,
+  payload: FormData | Record<string, unknown>,
+  { timeoutMs }: { timeoutMs: number }
+): Promise<EdgeFunctionResult> {
+  const isForm = payload instanceof FormData;
+  let response: Response;
+  try {
+    response = await fetch(`${functionUrl()}/${endpoint}`, {
+      method: 'POST',
+      headers: {
+        ...authHeaders(),
+        ...(!isForm && { 'Content-Type': 'application/json' }),
+      },
+      body: isForm ? payload : JSON.stringify(payload),
+      signal: AbortSignal.timeout(timeoutMs),
+      cache: 'no-store',
+    });
+  } catch (err) {
+    if (err instanceof ProxyError) throw err;
+    console.error(`Edge function ${endpoint} unreachable:`, err);
+    const timedOut = err instanceof DOMException && err.name === 'TimeoutError';
+    throw new ProxyError(
+      timedOut ? 'The generation service took too long to respond' : 'The generation service is unreachable',
+      timedOut ? 504 : 502
+    );
+  }
+
+  const body = await response.json().catch(() => null);
+  if (body === null) {
+    throw new ProxyError('The generation service returned a malformed response', 502);
+  }
+  return { status: response.status, body };
+}
+
+/**
+ * Drop the edge function's internal fields from a response body
+ */
+export function stripInternalFields(body: unknown): unknown {
+  if (!body || typeof body !== 'object' || !('data' in body) || !body.data || typeof body.data !== 'object') {
+    return body;
+  }
+  const data = Object.fromEntries(Object.entries(body.data).filter(([key]) => !INTERNAL_FIELDS.includes(key)));
+  return { ...body, data };
+}
+
+/**
+ * Answer a proxy request: the edge function's response without its internal fields,
+ * or the error envelope for a ProxyError
+ */
+export function proxyResponse(result: EdgeFunctionResult): Response {
+  return Response.json(stripInternalFields(result.body), { status: result.status });
+}
+
+export function proxyErrorResponse(error: unknown): Response {
+  if (error instanceof ProxyError) {
+    return Response.json({ status: 'error', message: error.message }, { status: error.status, headers: error.headers });
+  }
+  console.error('Try-on proxy error:', error);
+  return Response.json({ status: 'error', message: 'Internal server error' }, { status: 500 });
+}
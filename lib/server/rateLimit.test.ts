@@ -0,0 +1,183 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ProxyError } from './edgeFunction';
+import { createCounter } from './rateLimit';
+
+const MINUTE_MS = 60 * 1000;
+const nextMinute = (now: number) => now + MINUTE_MS;
+
+function rejection(run: () => unknown): ProxyError {
+  try {
+    run();
+  } catch (err) {
+    if (err instanceof ProxyError) return err;
+    throw err;
+  }
+  throw new Error('Expected a ProxyError');
+}
+
+/**
+ * Load the module with the given environment, since the client IP settings are read on import
+ */
+async function loadRateLimit(env: Record<string, string | undefined>) {
+  vi.resetModules();
+  for (const name of ['TRY_ON_CLIENT_IP_HEADER', 'TRY_ON_TRUSTED_PROXY_COUNT', 'VERCEL', 'NEXT_PUBLIC_SUPABASE_URL', 'NEXT_PUBLIC_SUPABASE_ANON_KEY']) {
+    vi.stubEnv(name, env[name] ?? '');
+  }
+  vi.stubEnv('NODE_ENV', env.NODE_ENV ?? 'test');
+  return import('./rateLimit');
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('createCounter', () => {
+  it('allows the limit per window, then answers 429 with Retry-After', () => {
+    const counter = createCounter(2, nextMinute, (limit) => `At most ${limit} per minute`);
+
+    counter.take('a', 0);
+    counter.take('a', 1000);
+    const error = rejection(() => counter.take('a', 20000));
+
+    expect(error.status).toBe(429);
+    expect(error.message).toBe('At most 2 per minute');
+    expect(error.headers).toEqual({ 'Retry-After': '40' });
+  });
+
+  it('counts every key on its own', () => {
+    const counter = createCounter(1, nextMinute, () => 'Limited');
+
+    counter.take('a', 0);
+
+    expect(() => counter.take('b', 0)).not.toThrow();
+    expect(() => counter.take('a', 0)).toThrow(ProxyError);
+  });
+
+  it('starts a new window once the old one ends', () => {
+    const counter = createCounter(1, nextMinute, () => 'Limited');
+
+    counter.take('a', 0);
+    expect(() => counter.take('a', MINUTE_MS - 1)).toThrow(ProxyError);
+
+    expect(() => counter.take('a', MINUTE_MS)).not.toThrow();
+  });
+
+  it('gives a released use back once', () => {
+    const counter = createCounter(1, nextMinute, () => 'Limited');
+
+    const release = counter.take('a', 0);
+    release();
+    release();
+    counter.take('a', 0);
+
+    expect(() => counter.take('a', 0)).toThrow(ProxyError);
+  });
+
+  it('does not let a release from an earlier window free up the current one', () => {
+    const counter = createCounter(1, nextMinute, () => 'Limited');
+
+    const release = counter.take('a', 0);
+    counter.take('a', MINUTE_MS);
+    release();
+
+    expect(() => counter.take('a', MINUTE_MS)).toThrow(ProxyError);
+  });
+
+  it('rounds Retry-After up to at least one second', () => {
+    const counter = createCounter(1, nextMinute, () => 'Limited');
+    counter.take('a', 0);
+
+    expect(rejection(() => counter.take('a', MINUTE_MS - 10)).headers).toEqual({ 'Retry-After': '1' });
+  });
+
+  it('shares counts between counters using the same windows', () => {
+    const windows = new Map();
+    const route = createCounter(2, nextMinute, () => 'Limited', windows);
+    const page = createCounter(2, nextMinute, () => 'Limited', windows);
+
+    route.take('a', 0);
+    page.take('a', 0);
+
+    expect(() => route.take('a', 0)).toThrow(ProxyError);
+  });
+
+  it('allows everything without a limit', () => {
+    const counter = createCounter(null, nextMinute, () => 'Limited');
+
+    for (let i = 0; i < 1000; i++) counter.take('a', 0);
+  });
+});
+
+describe('clientKey', () => {
+  const headers = (values: Record<string, string>) => new Headers(values);
+
+  it('prefers the signed-in user', async () => {
+    const { clientKey } = await loadRateLimit({ TRY_ON_CLIENT_IP_HEADER: 'x-real-ip' });
+
+    expect(clientKey(headers({ 'x-real-ip': '203.0.113.7' }), 'user-1')).toBe('user:user-1');
+  });
+
+  it('reads the configured client IP header', async () => {
+    const { clientKey } = await loadRateLimit({ TRY_ON_CLIENT_IP_HEADER: 'CF-Connecting-IP' });
+
+    expect(clientKey(headers({ 'cf-connecting-ip': '203.0.113.7', 'x-forwarded-for': '198.51.100.1' }))).toBe(
+      'ip:203.0.113.7'
+    );
+    expect(clientKey(headers({}))).toBe('ip:unknown');
+  });
+
+  it('uses x-real-ip on Vercel unless another header is configured', async () => {
+    const onVercel = await loadRateLimit({ VERCEL: '1' });
+    expect(onVercel.clientIp(headers({ 'x-real-ip': '203.0.113.7' }))).toBe('203.0.113.7');
+
+    const configured = await loadRateLimit({ VERCEL: '1', TRY_ON_CLIENT_IP_HEADER: 'cf-connecting-ip' });
+    expect(configured.clientIp(headers({ 'x-real-ip': '203.0.113.7' }))).toBeNull();
+  });
+
+  it('takes the X-Forwarded-For entry the outermost trusted proxy added', async () => {
+    const { clientIp } = await loadRateLimit({ TRY_ON_TRUSTED_PROXY_COUNT: '2' });
+
+    // The client sent the first entry itself; the two proxies appended the others
+    expect(clientIp(headers({ 'x-forwarded-for': '10.0.0.1, 203.0.113.7, 172.16.0.2' }))).toBe('203.0.113.7');
+    expect(clientIp(headers({ 'x-forwarded-for': '172.16.0.2' }))).toBeNull();
+  });
+
+  it('ignores forwarded addresses without a trusted source', async () => {
+    const { clientKey } = await loadRateLimit({});
+
+    expect(clientKey(headers({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.7' }))).toBe('ip:unknown');
+  });
+});
+
+describe('checkClientIpSource', () => {
+  it('refuses to start a production server without sign-in or a client IP source', async () => {
+    const { checkClientIpSource } = await loadRateLimit({ NODE_ENV: 'production' });
+
+    expect(() => checkClientIpSource()).toThrow('TRY_ON_CLIENT_IP_HEADER');
+  });
+
+  it('only warns in development or when sign-in is required', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    (await loadRateLimit({ NODE_ENV: 'development' })).checkClientIpSource();
+    (
+      await loadRateLimit({
+        NODE_ENV: 'production',
+        NEXT_PUBLIC_SUPABASE_URL: 'https://example.supabase.co',
+        NEXT_PUBLIC_SUPABASE_ANON_KEY: 'anon',
+      })
+    ).checkClientIpSource();
+
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('accepts a configured source', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    (await loadRateLimit({ NODE_ENV: 'production', TRY_ON_TRUSTED_PROXY_COUNT: '1' })).checkClientIpSource();
+    (await loadRateLimit({ NODE_ENV: 'production', VERCEL: '1' })).checkClientIpSource();
+
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+import { isAuthEnabled } from '@/lib/config';
+import { ProxyError } from './edgeFunction';
+
+/**
+ * In-memory fixed-window counters for the try-on routes. Counts live in the server
+ * process, so with several instances each enforces its own limits.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Expired windows are swept once a counter tracks this many clients
+const SWEEP_THRESHOLD = 10000;
+
+interface CounterWindow {
+  count: number;
+  resetAt: number;
+}
+
+export interface Counter {
+  /**
+   * Count one use for `key`, or throw a 429 ProxyError if it has used up its window.
+   * Checking and counting happen together, so parallel requests can't all slip under the limit.
+   * @returns A function that gives the use back, e.g. when the work it was taken for failed
+   */
+  take(key: string, now?: number): () => void;
+}
+
+function readLimit(value: string | undefined, fallback: number | null): number | null {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Create a counter allowing `limit` uses per window; `null` allows everything.
+ * `windowEnd` gives the end of the window that starts at `now`.
+ * @param windows - Where the counts are kept, to share them between counters
+ */
+export function createCounter(
+  limit: number | null,
+  windowEnd: (now: number) => number,
+  describe: (limit: number) => string,
+  windows: Map<string, CounterWindow> = new Map()
+): Counter {
+
+  const current = (key: string, now: number): CounterWindow => {
+    let entry = windows.get(key);
+    if (!entry || entry.resetAt <= now) {
+      if (windows.size >= SWEEP_THRESHOLD) {
+        for (const [otherKey, other] of windows) {
+          if (other.resetAt <= now) windows.delete(otherKey);
+        }
+      }
+      entry = { count: 0, resetAt: windowEnd(now) };
+      windows.set(key, entry);
+    }
+    return entry;
+  };
+
+  const release = () => {};
+
+  return {
+    take(key, now = Date.now()) {
+      if (limit === null) return release;
+      const entry = current(key, now);
+      if (entry.count >= limit) {
+        const retryAfter = Math.max(1, Math.ceil((entry.resetAt - now) / 1000));
+        throw new ProxyError(describe(limit), 429, { 'Retry-After': retryAfter.toString() });
+      }
+      entry.count++;
+      let released = false;
+      return () => {
+        // A window that has reset since doesn't owe anything back
+        if (released || windows.get(key) !== entry) return;
+        released = true;
+        entry.count = Math.max(0, entry.count - 1);
+      };
+    },
+  };
+}
+
+// Every route and page bundle gets its own copy of this module, and dev reloads evaluate it
+// again, so the counts live on globalThis to be shared by all of them
+const globalForLimits = globalThis as typeof globalThis & {
+  tryOnRateLimits?: Record<string, Map<string, CounterWindow>>;
+};
+
+function sharedWindows(name: string): Map<string, CounterWindow> {
+  globalForLimits.tryOnRateLimits ??= {};
+  return (globalForLimits.tryOnRateLimits[name] ??= new Map());
+}
+
+const nextMinute = (now: number) => now + MINUTE_MS;
+// Quotas reset at midnight UTC
+const nextUtcMidnight = (now: number) => Math.floor(now / DAY_MS) * DAY_MS + DAY_MS;
+
+export const submitRateLimit = createCounter(
+  readLimit(process.env.TRY_ON_RATE_LIMIT, 5),
+  nextMinute,
+  (limit) => `Too many try-ons. You can start ${limit} per minute; try again shortly.`,
+  sharedWindows('submit')
+);
+
+export const statusRateLimit = createCounter(
+  readLimit(process.env.TRY_ON_STATUS_RATE_LIMIT, 300),
+  nextMinute,
+  () => 'Too many status requests; slow down.',
+  sharedWindows('status')
+);
+
+export const dailyQuota = createCounter(
+  readLimit(process.env.TRY_ON_DAILY_QUOTA, null),
+  nextUtcMidnight,
+  (limit) => `Daily limit of ${limit} try-ons reached. It resets at midnight UTC.`,
+  sharedWindows('daily')
+);
+
+// Header the hosting platform sets to the client's IP (e.g. `x-real-ip`), overriding anything the client sent.
+// Vercel always sets `x-real-ip`, so it is the default there.
+const CLIENT_IP_HEADER =
+  process.env.TRY_ON_CLIENT_IP_HEADER?.trim().toLowerCase() || (process.env.VERCEL ? 'x-real-ip' : null);
+// Number of proxies in front of the app that each append the address they saw to X-Forwarded-For
+const TRUSTED_PROXY_COUNT = readLimit(process.env.TRY_ON_TRUSTED_PROXY_COUNT, null);
+
+/**
+ * Client IP as seen by the outermost trusted proxy, or null without a trusted source.
+ * Entries to the left of the ones our proxies appended are whatever the client sent, so they are ignored.
+ */
+export function clientIp(headers: Headers): string | null {
+  if (CLIENT_IP_HEADER) {
+    return headers.get(CLIENT_IP_HEADER)?.trim() || null;
+  }
+  if (TRUSTED_PROXY_COUNT !== null) {
+    const hops = (headers.get('x-forwarded-for') || '')
+      .split(',')
+      .map((hop) => hop.trim())
+      .filter(Boolean);
+    return hops[hops.length - TRUSTED_PROXY_COUNT] || null;
+  }
+  return null;
+}
+
+/**
+ * Key the limits are counted under: the signed-in user, or for anonymous requests the
+ * client's IP from a trusted proxy. Without one, anonymous requests share a single key.
+ */
+export function clientKey(headers: Headers, userId: string | null = null): string {
+  if (userId) return `user:${userId}`;
+  return `ip:${clientIp(headers) || 'unknown'}`;
+}
+
+/**
+ * Make sure anonymous clients can be told apart, called once when the server starts.
+ * Without a client IP source every anonymous visitor counts as the same client, so one
+ * of them can use up everyone's limits. A production server without sign-in refuses to
+ * start in that case; otherwise it is a warning.
+ */
+export function checkClientIpSource(): void {
+  if (CLIENT_IP_HEADER || TRUSTED_PROXY_COUNT !== null) return;
+
+  const message =
+    'No trusted client IP source is configured, so all anonymous requests share one rate limit. ' +
+    'Set TRY_ON_CLIENT_IP_HEADER or TRY_ON_TRUSTED_PROXY_COUNT to match your hosting.';
+  if (!isAuthEnabled && process.env.NODE_ENV === 'production') {
+    throw new Error(message);
+  }
+  console.warn(message);
+}
@@ -0,0 +1,79 @@
+import { MAX_PROMPT_LENGTH, MAX_SEED } from '@/lib/config';
+import { ProxyError } from './edgeFunction';
+
+const IMAGE_FIELDS = ['model_image', 'top_image', 'bottom_image', 'outer_image', 'dress_image'];
+const GARMENT_FIELDS = IMAGE_FIELDS.slice(1);
+const TEXT_FIELDS = ['num_outputs', 'seed', 'prompt', 'background', 'lighting', 'garment_fit', 'tuck_style'];
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Uploads are compressed to JPEG or WebP in the browser; PNG is allowed for anything that skipped that
+const SIGNATURES: Record<string, (bytes: Uint8Array) => boolean> = {
+  'image/jpeg': (bytes) => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff,
+  'image/png': (bytes) => bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47,
+  'image/webp': (bytes) =>
+    String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF' && String.fromCharCode(...bytes.subarray(8, 12)) === 'WEBP',
+};
+
+async function checkImage(field: string, file: File): Promise<void> {
+  const matches = SIGNATURES[file.type];
+  if (!matches) {
+    throw new ProxyError(`${field} must be a JPEG, PNG or WebP image`, 415);
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new ProxyError(`${field} is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB`, 413);
+  }
+  // The declared type comes from the client, so check it against the file's contents
+  const header = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+  if (!matches(header)) {
+    throw new ProxyError(`${field} is not a valid ${file.type.replace('image/', '').toUpperCase()} file`, 415);
+  }
+}
+
+/**
+ * Validate a try-on submission and copy the fields the edge function accepts into a
+ * new form, so nothing else (e.g. a `webhook_url`) can be passed through
+ */
+export async function buildEdgeFunctionForm(form: FormData): Promise<FormData> {
+  const upstream = new FormData();
+
+  for (const field of IMAGE_FIELDS) {
+    // Same fallback as the edge function, which also accepts base_image
+    const value = form.get(field) ?? (field === 'model_image' ? form.get('base_image') : null);
+    if (value === null) continue;
+    if (!(value instanceof File)) {
+      throw new ProxyError(`${field} must be a file`, 400);
+    }
+    await checkImage(field, value);
+    upstream.append(field, value);
+  }
+
+  if (!upstream.has('model_image')) {
+    throw new ProxyError('A model image is required', 400);
+  }
+  if (!GARMENT_FIELDS.some((field) => upstream.has(field))) {
+    throw new ProxyError('At least one clothing image is required', 400);
+  }
+
+  for (const field of TEXT_FIELDS) {
+    const value = form.get(field);
+    if (typeof value === 'string' && value !== '') {
+      upstream.append(field, value);
+    }
+  }
+
+  const numOutputs = Number(upstream.get('num_outputs') ?? 1);
+  if (!Number.isInteger(numOutputs) || numOutputs < 1 || numOutputs > 4) {
+    throw new ProxyError('Number of outputs must be between 1 and 4', 400);
+  }
+  const seed = upstream.get('seed');
+  if (seed !== null && (!Number.isInteger(Number(seed)) || Number(seed) < 0 || Number(seed) > MAX_SEED)) {
+    throw new ProxyError(`Seed must be a whole number between 0 and ${MAX_SEED}`, 400);
+  }
+  const prompt = upstream.get('prompt');
+  if (typeof prompt === 'string' && prompt.length > MAX_PROMPT_LENGTH) {
+    throw new ProxyError(`The prompt must be at most ${MAX_PROMPT_LENGTH} characters`, 400);
+  }
+
+  return upstream;
+}
@@ -1,11 +1,16 @@
 import { createClient } from '@supabase/supabase-js';
+import { isSupabaseConfigured } from '@/lib/config';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
 
-if (!supabaseUrl || !supabaseAnonKey) {
+if (!isSupabaseConfigured) {
   console.warn('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
-
+// createClient throws on an empty URL, so fall back to the Supabase CLI's local
+// defaults and let callers check isSupabaseConfigured before relying on the client
+export const supabase = createClient(
+  supabaseUrl || 'http://127.0.0.1:54321',
+  supabaseAnonKey || 'anon-key-not-configured'
+);
@@ -0,0 +1,91 @@
+import { addStep, createOutfitTree, type OutfitTree } from './outfitTree';
+
+const STORAGE_KEY = 'wardrobe:active-session';
+const URL_PARAM = 'prediction';
+
+/**
+ * Everything needed to pick the outfit back up after a reload
+ */
+export interface ActiveSession {
+  currentStep: 'initial' | 'adding';
+  outfitTree: OutfitTree;
+  activeStepId: string | null;
+}
+
+// Each user resumes their own outfit; anonymous use keeps the original key
+function storageKey(userId: string | null): string {
+  return userId ? `${STORAGE_KEY}:${userId}` : STORAGE_KEY;
+}
+
+function readStoredSession(userId: string | null): ActiveSession | null {
+  try {
+    const raw = window.localStorage.getItem(storageKey(userId));
+    if (!raw) return null;
+    const session = JSON.parse(raw) as ActiveSession;
+    return session.outfitTree && typeof session.outfitTree.steps === 'object' ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+function getActivePredictionId(session: ActiveSession): string | null {
+  return session.activeStepId ? session.outfitTree.steps[session.activeStepId]?.predictionId || null : null;
+}
+
+/**
+ * Load the session to resume. A `?prediction=` URL parameter wins over local storage
+ * so shared or bookmarked links open the job they point to.
+ */
+export function loadActiveSession(userId: string | null): ActiveSession | null {
+  if (typeof window === 'undefined') return null;
+
+  const stored = readStoredSession(userId);
+  const urlPredictionId = new URLSearchParams(window.location.search).get(URL_PARAM);
+  if (!urlPredictionId) return stored;
+
+  const knownStep = stored && Object.values(stored.outfitTree.steps).find((step) => step.predictionId === urlPredictionId);
+  if (stored && knownStep) {
+    return { ...stored, activeStepId: knownStep.id };
+  }
+
+  // A job this browser has not seen - start a new timeline from it
+  const { tree, step } = addStep(createOutfitTree(), { parentId: null, kind: 'layer', predictionId: urlPredictionId });
+  return { currentStep: 'initial', outfitTree: tree, activeStepId: step.id };
+}
+
+/**
+ * Persist the session to local storage and mirror the active prediction id in the URL
+ */
+export function saveActiveSession(userId: string | null, session: ActiveSession): void {
+  try {
+    window.localStorage.setItem(storageKey(userId), JSON.stringify(session));
+  } catch (err) {
+    // Storage can be full or disabled (private mode) - the URL still allows resuming
+    console.warn('Failed to persist session:', err);
+  }
+
+  const predictionId = getActivePredictionId(session);
+  const url = new URL(window.location.href);
+  if (url.searchParams.get(URL_PARAM) !== predictionId) {
+    if (predictionId) {
+      url.searchParams.set(URL_PARAM, predictionId);
+    } else {
+      url.searchParams.delete(URL_PARAM);
+    }
+    window.history.replaceState(window.history.state, '', url);
+  }
+}
+
+export function clearActiveSession(userId: string | null): void {
+  try {
+    window.localStorage.removeItem(storageKey(userId));
+  } catch {
+    // Nothing to clear if storage is unavailable
+  }
+
+  const url = new URL(window.location.href);
+  if (url.searchParams.has(URL_PARAM)) {
+    url.searchParams.delete(URL_PARAM);
+    window.history.replaceState(window.history.state, '', url);
+  }
+}
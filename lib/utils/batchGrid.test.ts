@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { buildGarmentCombos, buildJobGrid, type GarmentCombo } from './batchGrid';
+
+const image = (name: string) => new File([name], `${name}.jpg`, { type: 'image/jpeg' });
+
+/**
+ * Combos as sorted "slot:file" lists, so they compare independently of order
+ */
+const describeCombos = (combos: GarmentCombo[]) =>
+  combos
+    .map((combo) =>
+      Object.entries(combo)
+        .map(([slot, file]) => `${slot}:${file.name}`)
+        .sort()
+        .join(' ')
+    )
+    .sort();
+
+describe('buildGarmentCombos', () => {
+  it('pairs every top with every bottom', () => {
+    const combos = buildGarmentCombos({
+      top: [image('t1'), image('t2')],
+      bottom: [image('b1'), image('b2')],
+    });
+
+    expect(describeCombos(combos)).toEqual([
+      'bottom:b1.jpg top:t1.jpg',
+      'bottom:b1.jpg top:t2.jpg',
+      'bottom:b2.jpg top:t1.jpg',
+      'bottom:b2.jpg top:t2.jpg',
+    ]);
+  });
+
+  it('keeps dresses apart from tops and bottoms', () => {
+    const combos = buildGarmentCombos({
+      top: [image('t1')],
+      bottom: [image('b1')],
+      dress: [image('d1'), image('d2')],
+    });
+
+    expect(describeCombos(combos)).toEqual(['bottom:b1.jpg top:t1.jpg', 'dress:d1.jpg', 'dress:d2.jpg']);
+  });
+
+  it('adds outerwear to every outfit it fits', () => {
+    const combos = buildGarmentCombos({
+      top: [image('t1')],
+      outer: [image('o1')],
+      dress: [image('d1')],
+    });
+
+    expect(describeCombos(combos)).toEqual(['dress:d1.jpg outer:o1.jpg', 'outer:o1.jpg top:t1.jpg']);
+  });
+
+  it('returns no outfits without garments', () => {
+    expect(buildGarmentCombos({})).toEqual([]);
+    expect(buildGarmentCombos({ top: [] })).toEqual([]);
+  });
+});
+
+describe('buildJobGrid', () => {
+  it('creates one cell per model and outfit', () => {
+    const models = [image('m1'), image('m2')];
+
+    const grid = buildJobGrid(models, { top: [image('t1')], dress: [image('d1')] });
+
+    expect(grid.combos).toHaveLength(2);
+    expect(grid.cells).toEqual([
+      { id: '0-0', modelIndex: 0, comboIndex: 0 },
+      { id: '0-1', modelIndex: 0, comboIndex: 1 },
+      { id: '1-0', modelIndex: 1, comboIndex: 0 },
+      { id: '1-1', modelIndex: 1, comboIndex: 1 },
+    ]);
+  });
+});
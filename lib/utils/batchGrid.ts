@@ -0,0 +1,64 @@
+import type { JobStatus } from '@/lib/api/matchingSet';
+import { CLOTHING_SLOTS, getSlotConflicts, type ClothingType } from './clothingSlots';
+
+/**
+ * One outfit to try on: at most one garment per slot
+ */
+export type GarmentCombo = Partial<Record<ClothingType, File>>;
+
+export interface BatchCell {
+  id: string;
+  modelIndex: number;
+  comboIndex: number;
+}
+
+export interface BatchGrid {
+  models: File[];
+  combos: GarmentCombo[];
+  cells: BatchCell[];
+}
+
+/**
+ * Build every valid outfit from the garments uploaded per slot. Each outfit is
+ * maximal: no other uploaded slot could be added to it without a conflict, so
+ * tops × bottoms and dresses become separate outfits instead of clashing.
+ */
+export function buildGarmentCombos(garments: Partial<Record<ClothingType, File[]>>): GarmentCombo[] {
+  const slots = CLOTHING_SLOTS.map((slot) => slot.type).filter((type) => (garments[type] || []).length > 0);
+
+  // Cartesian product where every slot may also be left empty
+  let combos: GarmentCombo[] = [{}];
+  for (const type of slots) {
+    combos = combos.flatMap((combo) => [combo, ...(garments[type] || []).map((file) => ({ ...combo, [type]: file }))]);
+  }
+
+  return combos.filter((combo) => {
+    const used = Object.keys(combo) as ClothingType[];
+    if (used.length === 0 || getSlotConflicts(used).length > 0) return false;
+    return slots.every((type) => used.includes(type) || getSlotConflicts([...used, type]).length > 0);
+  });
+}
+
+/**
+ * Build the model × outfit job grid for a batch run
+ */
+export function buildJobGrid(models: File[], garments: Partial<Record<ClothingType, File[]>>): BatchGrid {
+  const combos = buildGarmentCombos(garments);
+  const cells: BatchCell[] = [];
+  models.forEach((_, modelIndex) => {
+    combos.forEach((_, comboIndex) => {
+      cells.push({ id: `${modelIndex}-${comboIndex}`, modelIndex, comboIndex });
+    });
+  });
+  return { models, combos, cells };
+}
+
+/**
+ * Progress of one batch cell. The local phases come before the backend job statuses.
+ */
+export interface BatchCellState {
+  status: 'queued' | 'compressing' | 'submitting' | JobStatus;
+  predictionId: string | null;
+  outputs: string[];
+  error: string | null;
+}
@@ -0,0 +1,44 @@
+import type { ClothingImages } from '@/lib/api/matchingSet';
+
+export type ClothingType = 'top' | 'bottom' | 'outer' | 'dress';
+
+export interface ClothingSlot {
+  type: ClothingType;
+  field: keyof ClothingImages;
+  label: string;
+}
+
+/**
+ * Garment slots in the order they are shown in the form and sent to the backend
+ */
+export const CLOTHING_SLOTS: ClothingSlot[] = [
+  { type: 'top', field: 'top_image', label: 'Top Image (Shirt/Top)' },
+  { type: 'bottom', field: 'bottom_image', label: 'Bottom Image (Pants/Skirt)' },
+  { type: 'outer', field: 'outer_image', label: 'Outer Image (Jacket/Coat)' },
+  { type: 'dress', field: 'dress_image', label: 'Dress Image (One-piece)' },
+];
+
+// A dress is a one-piece garment, so it occupies the top and bottom slots
+const EXCLUSIVE_SLOTS: Partial<Record<ClothingType, ClothingType[]>> = {
+  dress: ['top', 'bottom'],
+};
+
+/**
+ * Find garment slots that cannot be worn together
+ * @param selected - Slot types that currently have an image
+ * @returns Human-readable conflict messages (empty when the outfit is valid)
+ */
+export function getSlotConflicts(selected: ClothingType[]): string[] {
+  const conflicts: string[] = [];
+
+  for (const type of selected) {
+    const excluded = (EXCLUSIVE_SLOTS[type] || []).filter((other) => selected.includes(other));
+    if (excluded.length > 0) {
+      conflicts.push(
+        `A ${type} covers the ${excluded.join(' and ')} — remove the ${excluded.join(' and ')} image${excluded.length > 1 ? 's' : ''} or the ${type} image.`
+      );
+    }
+  }
+
+  return conflicts;
+}
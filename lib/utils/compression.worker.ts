@@ -0,0 +1,25 @@
+import { compressToBudget, type CompressedImage, type CompressionSettings } from './compressionCore';
+
+export interface CompressionRequest {
+  id: number;
+  file: File;
+  settings: CompressionSettings;
+}
+
+export type CompressionResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'done'; result: CompressedImage }
+  | { id: number; type: 'error'; message: string };
+
+// Runs in a dedicated worker; `self` is typed as Window because the project only loads the DOM lib
+self.addEventListener('message', async (event) => {
+  const { id, file, settings } = (event as MessageEvent<CompressionRequest>).data;
+  const post = (response: CompressionResponse) => self.postMessage(response);
+
+  try {
+    const result = await compressToBudget(file, settings, (progress) => post({ id, type: 'progress', progress }));
+    post({ id, type: 'done', result });
+  } catch (err) {
+    post({ id, type: 'error', message: err instanceof Error ? err.message : 'Failed to compress image' });
+  }
+});
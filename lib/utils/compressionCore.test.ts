@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CompressionSettings } from './compressionCore';
+
+// Budget of 1000 bytes; the fake encoder below produces width × height × quality bytes
+const BUDGET_MB = 1000 / (1024 * 1024);
+
+interface Encoding {
+  width: number;
+  height: number;
+  type: string;
+  quality: number;
+  size: number;
+}
+
+let encodings: Encoding[];
+let filled: boolean[];
+let webpSupported: boolean;
+const dimensions = new WeakMap<Blob, { width: number; height: number }>();
+
+class FakeOffscreenCanvas {
+  constructor(
+    readonly width: number,
+    readonly height: number
+  ) {}
+
+  getContext() {
+    const index = filled.push(false) - 1;
+    return {
+      fillStyle: '',
+      fillRect: () => {
+        filled[index] = true;
+      },
+      drawImage: () => {},
+    };
+  }
+
+  async convertToBlob({ type, quality }: { type: string; quality: number }) {
+    // Like browsers without a WebP encoder, fall back to PNG
+    const encodedType = type === 'image/webp' && !webpSupported ? 'image/png' : type;
+    const size = Math.round(this.width * this.height * quality);
+    encodings.push({ width: this.width, height: this.height, type: encodedType, quality, size });
+    return new Blob([new Uint8Array(size)], { type: encodedType });
+  }
+}
+
+class FakeImageData {
+  constructor(
+    readonly width: number,
+    readonly height: number
+  ) {}
+}
+
+function image(width: number, height: number, type = 'image/jpeg', name = 'photo.jpg'): File {
+  const file = new File([new Uint8Array(16)], name, { type });
+  dimensions.set(file, { width, height });
+  return file;
+}
+
+const settings = (overrides: Partial<CompressionSettings> = {}): CompressionSettings => ({
+  maxWidth: 1920,
+  maxHeight: 1920,
+  quality: 0.8,
+  maxSizeMB: BUDGET_MB,
+  ...overrides,
+});
+
+// supportsWebp() caches its answer per module instance, so every test loads a fresh copy
+const loadCompressToBudget = async () => (await import('./compressionCore')).compressToBudget;
+
+beforeEach(() => {
+  encodings = [];
+  filled = [];
+  webpSupported = true;
+  vi.resetModules();
+  vi.stubGlobal('OffscreenCanvas', FakeOffscreenCanvas);
+  vi.stubGlobal('ImageData', FakeImageData);
+  vi.stubGlobal('createImageBitmap', async (source: Blob | FakeImageData) => ({
+    ...(source instanceof FakeImageData ? { width: source.width, height: source.height } : dimensions.get(source)!),
+    close: () => {},
+  }));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+/**
+ * Encodings of the image itself, without the 1×1 WebP support probe
+ */
+const imageEncodings = () => encodings.filter((encoding) => encoding.width > 1);
+
+describe('compressToBudget', () => {
+  it('keeps the first encoding when it fits the budget', async () => {
+    const compressToBudget = await loadCompressToBudget();
+
+    const result = await compressToBudget(image(30, 30), settings());
+
+    expect(imageEncodings()).toEqual([{ width: 30, height: 30, type: 'image/jpeg', quality: 0.8, size: 720 }]);
+    expect(result).toMatchObject({ width: 30, height: 30, quality: 0.8 });
+    expect(result.file.size).toBe(720);
+    expect(result.file.name).toBe('photo.jpg');
+  });
+
+  it('binary-searches the highest quality that fits', async () => {
+    const compressToBudget = await loadCompressToBudget();
+
+    // 1600 pixels fit up to quality 0.625
+    const result = await compressToBudget(image(40, 40), settings());
+
+    const searched = imageEncodings().slice(1);
+    expect(searched).toHaveLength(6);
+    expect(searched.every((encoding) => encoding.quality >= 0.35 && encoding.quality < 0.8)).toBe(true);
+    expect(result.file.size).toBeLessThanOrEqual(1000);
+    const best = Math.max(...searched.filter((encoding) => encoding.size <= 1000).map((encoding) => encoding.quality));
+    expect(best).toBeGreaterThan(0.625 - (0.8 - 0.35) / 2 ** 6);
+    expect(result.quality).toBe(best);
+    expect(result.file.size).toBe(Math.round(1600 * best));
+  });
+
+  it('fits large images into the maximum dimensions first', async () => {
+    const compressToBudget = await loadCompressToBudget();
+
+    await compressToBudget(image(4000, 2000), settings({ maxSizeMB: 10 }));
+
+    expect(imageEncodings()[0]).toMatchObject({ width: 1920, height: 960 });
+  });
+
+  it('downscales when even the lowest quality is over budget', async () => {
+    const compressToBudget = await loadCompressToBudget();
+
+    // At quality 0.35 the image needs to shrink to about 53×53 pixels
+    const result = await compressToBudget(image(100, 100), settings());
+
+    expect([...new Set(imageEncodings().map((encoding) => encoding.width))]).toEqual([100, 80, 64, 51]);
+    expect(result).toMatchObject({ width: 51, height: 51 });
+    expect(result.file.size).toBeLessThanOrEqual(1000);
+  });
+
+  it('returns the smallest encoding when nothing fits', async () => {
+    const compressToBudget = await loadCompressToBudget();
+    const progress: number[] = [];
+
+    const result = await compressToBudget(image(1000, 1000), settings(), (value) => progress.push(value));
+
+    const smallest = imageEncodings().reduce((min, encoding) => (encoding.size < min.size ? encoding : min));
+    expect(result).toMatchObject({ width: smallest.width, height: smallest.height, quality: smallest.quality });
+    expect(result.file.size).toBe(smallest.size);
+    expect(result.file.size).toBeGreaterThan(1000);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress.at(-1)).toBe(1);
+  });
+
+  describe('output format', () => {
+    it('turns PNG into WebP and keeps transparency where WebP can be encoded', async () => {
+      const compressToBudget = await loadCompressToBudget();
+
+      const result = await compressToBudget(image(30, 30, 'image/png', 'shirt.png'), settings());
+
+      expect(result.file.type).toBe('image/webp');
+      expect(result.file.name).toBe('shirt.webp');
+      expect(filled.at(-1)).toBe(false);
+    });
+
+    it('turns PNG into JPEG on a white background without a WebP encoder', async () => {
+      webpSupported = false;
+      const compressToBudget = await loadCompressToBudget();
+
+      const result = await compressToBudget(image(30, 30, 'image/png', 'shirt.png'), settings());
+
+      expect(result.file.type).toBe('image/jpeg');
+      expect(result.file.name).toBe('shirt.jpg');
+      expect(filled.at(-1)).toBe(true);
+    });
+
+    it.each(['image/jpeg', 'image/gif', 'image/bmp'])('encodes %s as JPEG', async (type) => {
+      const compressToBudget = await loadCompressToBudget();
+
+      const result = await compressToBudget(image(30, 30, type, 'photo.img'), settings());
+
+      expect(result.file.type).toBe('image/jpeg');
+      expect(result.file.name).toBe('photo.jpg');
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Compression that only relies on APIs available both on the main thread and in a
+ * worker (`createImageBitmap`, `OffscreenCanvas`), so the worker and the main-thread
+ * fallback share one implementation.
+ */
+
+export interface CompressionSettings {
+  maxWidth: number;
+  maxHeight: number;
+  /** Highest quality to try (0-1); lower qualities are searched when the result is too large */
+  quality: number;
+  maxSizeMB: number;
+}
+
+/**
+ * A compressed file with the encoding that was settled on
+ */
+export interface CompressedImage {
+  file: File;
+  width: number;
+  height: number;
+  quality: number;
+}
+
+// Quality search bounds and effort
+const MIN_QUALITY = 0.35;
+const SEARCH_STEPS = 6;
+// When even the lowest quality is over budget, shrink the image and search again
+const DOWNSCALE_FACTOR = 0.8;
+const MAX_DOWNSCALES = 4;
+
+interface Surface {
+  encode(type: string, quality: number): Promise<Blob>;
+}
+
+function drawToSurface(bitmap: ImageBitmap, width: number, height: number, opaque: boolean): Surface {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+    if (opaque) {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return { encode: (type, quality) => canvas.convertToBlob({ type, quality }) };
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+  if (opaque) {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return {
+    encode: (type, quality) =>
+      new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to compress image'))), type, quality);
+      }),
+  };
+}
+
+let webpSupport: Promise<boolean> | null = null;
+
+/**
+ * Browsers without a WebP encoder silently return PNG, so try a 1×1 image once
+ */
+function supportsWebp(): Promise<boolean> {
+  if (!webpSupport) {
+    webpSupport = createImageBitmap(new ImageData(1, 1))
+      .then((bitmap) => {
+        const blob = drawToSurface(bitmap, 1, 1, false).encode('image/webp', 0.8);
+        bitmap.close();
+        return blob;
+      })
+      .then((blob) => blob.type === 'image/webp')
+      .catch(() => false);
+  }
+  return webpSupport;
+}
+
+/**
+ * PNG and WebP inputs become WebP (keeping transparency) where the browser can encode it;
+ * everything else becomes JPEG
+ */
+async function pickOutputType(inputType: string): Promise<string> {
+  if ((inputType === 'image/png' || inputType === 'image/webp') && (await supportsWebp())) {
+    return 'image/webp';
+  }
+  return 'image/jpeg';
+}
+
+const EXTENSIONS: Record<string, string> = { 'image/webp': 'webp', 'image/jpeg': 'jpg' };
+
+interface Encoding {
+  blob: Blob;
+  width: number;
+  height: number;
+  quality: number;
+}
+
+/**
+ * Resize an image to fit the maximum dimensions and binary-search the encoder quality
+ * for the best result within the byte budget
+ * @param onProgress - Called with 0-1 as encoding passes complete
+ */
+export async function compressToBudget(
+  file: File,
+  settings: CompressionSettings,
+  onProgress?: (progress: number) => void
+): Promise<CompressedImage> {
+  const budget = settings.maxSizeMB * 1024 * 1024;
+  const type = await pickOutputType(file.type);
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    let scale = Math.min(1, settings.maxWidth / bitmap.width, settings.maxHeight / bitmap.height);
+    let smallest: Encoding | null = null;
+    let reported = 0;
+
+    for (let attempt = 0; attempt <= MAX_DOWNSCALES; attempt++) {
+      const width = Math.max(1, Math.round(bitmap.width * scale));
+      const height = Math.max(1, Math.round(bitmap.height * scale));
+      // JPEG has no alpha channel, so transparent areas are flattened onto white
+      const surface = drawToSurface(bitmap, width, height, type === 'image/jpeg');
+      let passes = 0;
+
+      const encode = async (quality: number): Promise<Encoding> => {
+        const encoding = { blob: await surface.encode(type, quality), width, height, quality };
+        passes++;
+        // Most images fit on the first attempt, so progress assumes this attempt is the last
+        reported = Math.max(reported, Math.min(0.99, (attempt + passes / (SEARCH_STEPS + 1)) / (attempt + 1)));
+        onProgress?.(reported);
+        if (!smallest || encoding.blob.size < smallest.blob.size) smallest = encoding;
+        return encoding;
+      };
+
+      let best: Encoding | null = null;
+      const first = await encode(settings.quality);
+      if (first.blob.size <= budget) {
+        best = first;
+      } else {
+        // Highest quality in [low, high] that still fits the budget
+        let low = MIN_QUALITY;
+        let high = settings.quality;
+        for (let step = 0; step < SEARCH_STEPS; step++) {
+          const quality = (low + high) / 2;
+          const encoding = await encode(quality);
+          if (encoding.blob.size <= budget) {
+            best = encoding;
+            low = quality;
+          } else {
+            high = quality;
+          }
+        }
+      }
+
+      if (best) {
+        onProgress?.(1);
+        return toCompressedImage(best, file.name);
+      }
+      scale *= DOWNSCALE_FACTOR;
+    }
+
+    // Give up on the budget but still return the smallest encoding found
+    onProgress?.(1);
+    return toCompressedImage(smallest!, file.name);
+  } finally {
+    bitmap.close();
+  }
+}
+
+function toCompressedImage({ blob, width, height, quality }: Encoding, originalName: string): CompressedImage {
+  const extension = EXTENSIONS[blob.type] || 'jpg';
+  const name = originalName.replace(/\.[^.]+$/, '') + '.' + extension;
+  return { file: new File([blob], name, { type: blob.type, lastModified: Date.now() }), width, height, quality };
+}
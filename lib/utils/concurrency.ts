@@ -0,0 +1,42 @@
+export interface ConcurrencyLimiter {
+  /** Run a task as soon as a slot is free */
+  run<T>(task: () => Promise<T>): Promise<T>;
+  /** Change the number of tasks allowed to run at once; queued tasks start if slots free up */
+  setLimit(limit: number): void;
+}
+
+/**
+ * Create a queue that runs at most `limit` async tasks at the same time
+ */
+export function createConcurrencyLimiter(limit: number): ConcurrencyLimiter {
+  let maxActive = Math.max(1, limit);
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  const next = () => {
+    while (active < maxActive && queue.length > 0) {
+      active++;
+      queue.shift()!();
+    }
+  };
+
+  return {
+    run<T>(task: () => Promise<T>): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        queue.push(() => {
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              active--;
+              next();
+            });
+        });
+        next();
+      });
+    },
+    setLimit(newLimit: number) {
+      maxActive = Math.max(1, newLimit);
+      next();
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AuthError,
+  ClientHttpError,
+  ConfigError,
+  NetworkError,
+  ServerHttpError,
+  TimeoutError,
+  ValidationError,
+} from '@/lib/api/errors';
+import { classifyError, classifyJobFailure, invalidInput } from './errorClassification';
+import { ImageCompressionError } from './imageCompression';
+import { UnsupportedImageError } from './imageDecoding';
+
+describe('classifyError', () => {
+  it.each([
+    ['a validation error', new ValidationError('A model image is required'), 'input'],
+    ['an unsupported image', new UnsupportedImageError('HEIC images cannot be converted in this browser', 'heic'), 'input'],
+    ['a compression failure', new ImageCompressionError('Failed to prepare a.jpg', 'a.jpg'), 'input'],
+    ['a rejected request', new ClientHttpError('Bad request', 400), 'input'],
+    ['an upload the proxy refused', new ClientHttpError('Unsupported image type', 415), 'input'],
+    ['a missing sign-in', new AuthError('Sign in to generate try-ons'), 'config'],
+    ['missing configuration', new ConfigError('Supabase is not configured'), 'config'],
+    ['an expired session', new ClientHttpError('Unauthorized', 401), 'config'],
+    ['a forbidden request', new ClientHttpError('Forbidden', 403), 'config'],
+    ['an unconfigured service', new ServerHttpError('The generation service is not configured', 503), 'config'],
+    ['a rate limit', new ClientHttpError('Too many try-ons', 429), 'overloaded'],
+    ['an unreachable backend', new ServerHttpError('The generation service is unreachable', 502), 'overloaded'],
+    ['an unavailable backend', new ServerHttpError('Service unavailable', 503), 'overloaded'],
+    ['a backend timeout', new ServerHttpError('The generation service took too long to respond', 504), 'overloaded'],
+    ['a client timeout', new TimeoutError(30000), 'overloaded'],
+    ['a connection failure', new NetworkError('Failed to fetch'), 'network'],
+    ['an internal server error', new ServerHttpError('Internal server error', 500), 'model'],
+    ['an unknown error', new Error('Failed to start generation'), 'model'],
+  ])('classifies %s', (_, error, category) => {
+    expect(classifyError(error).category).toBe(category);
+  });
+
+  it('keeps the error message as the detail', () => {
+    expect(classifyError(new NetworkError('Failed to fetch')).detail).toBe('Failed to fetch');
+  });
+
+  it('falls back to the given message for non-errors', () => {
+    expect(classifyError('oops', 'Failed to cancel the job').detail).toBe('Failed to cancel the job');
+  });
+
+  it('only offers a retry where sending the same job again may work', () => {
+    expect(classifyError(new ClientHttpError('Too many try-ons', 429)).retryable).toBe(true);
+    expect(classifyError(new NetworkError('Failed to fetch')).retryable).toBe(true);
+    expect(classifyError(new ValidationError('A model image is required')).retryable).toBe(false);
+    expect(classifyError(new AuthError('Sign in to generate try-ons')).retryable).toBe(false);
+  });
+});
+
+describe('classifyJobFailure', () => {
+  it('blames the inputs when the model could not use them', () => {
+    expect(classifyJobFailure('Could not detect a person in the model image').category).toBe('input');
+    expect(classifyJobFailure('Input flagged by the NSFW filter').category).toBe('input');
+  });
+
+  it('blames the model otherwise', () => {
+    const failure = classifyJobFailure('CUDA out of memory');
+
+    expect(failure.category).toBe('model');
+    expect(failure.retryable).toBe(true);
+  });
+
+  it('explains a failure without a message', () => {
+    expect(classifyJobFailure(null).detail).toBe('The job failed without an error message');
+  });
+});
+
+describe('invalidInput', () => {
+  it('is an input problem that is not retried', () => {
+    expect(invalidInput('Please select a model image')).toMatchObject({
+      category: 'input',
+      detail: 'Please select a model image',
+      retryable: false,
+    });
+  });
+});
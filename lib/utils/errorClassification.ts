@@ -0,0 +1,113 @@
+import {
+  AuthError,
+  ConfigError,
+  HttpError,
+  NetworkError,
+  TimeoutError,
+  ValidationError,
+} from '@/lib/api/errors';
+import { ImageCompressionError } from './imageCompression';
+import { UnsupportedImageError } from './imageDecoding';
+
+export type ErrorCategory = 'input' | 'overloaded' | 'model' | 'network' | 'config';
+
+/**
+ * An error as shown to the user: what kind of problem it is and what to do about it
+ */
+export interface ClassifiedError {
+  category: ErrorCategory;
+  title: string;
+  /** What this kind of problem means, in plain words */
+  explanation: string;
+  suggestion: string;
+  /** The error's own message */
+  detail: string;
+  /** Whether sending the same job again may work */
+  retryable: boolean;
+}
+
+const CATEGORIES: Record<ErrorCategory, Omit<ClassifiedError, 'category' | 'detail'>> = {
+  input: {
+    title: 'Check your inputs',
+    explanation: 'One of the images or settings was rejected.',
+    suggestion: 'Replace the image or change the setting mentioned above, then generate again.',
+    retryable: false,
+  },
+  overloaded: {
+    title: 'The generator is busy',
+    explanation: 'Too much is running right now, so the request was turned away or took too long.',
+    suggestion: 'Wait a minute and retry. Your inputs are kept.',
+    retryable: true,
+  },
+  model: {
+    title: 'Generation failed',
+    explanation: 'The job reached the model, but it could not produce a result.',
+    suggestion: 'Retry once; if it fails again, try a different seed, a clearer model photo or fewer garments.',
+    retryable: true,
+  },
+  network: {
+    title: 'Connection problem',
+    explanation: 'The request did not reach the server.',
+    suggestion: 'Check your internet connection, then retry.',
+    retryable: true,
+  },
+  config: {
+    title: 'Setup or sign-in problem',
+    explanation: 'The app is missing settings, or your session is no longer valid.',
+    suggestion: 'Sign in again. If that does not help, ask an administrator to check the app configuration.',
+    retryable: false,
+  },
+};
+
+// Failure messages from the model that point at the inputs rather than the model itself
+const INPUT_FAILURE_PATTERN = /nsfw|safety|no (person|human|body|face)|could not (detect|find)|invalid (image|input)|unsupported/i;
+
+function categorize(error: unknown): ErrorCategory {
+  if (error instanceof ValidationError || error instanceof UnsupportedImageError || error instanceof ImageCompressionError) {
+    return 'input';
+  }
+  if (error instanceof AuthError || error instanceof ConfigError) {
+    return 'config';
+  }
+  // Checked before NetworkError, which it extends: the server was reached but too slow
+  if (error instanceof TimeoutError) {
+    return 'overloaded';
+  }
+  if (error instanceof NetworkError) {
+    return 'network';
+  }
+  if (error instanceof HttpError) {
+    if (error.status === 401 || error.status === 403) return 'config';
+    if (error.status === 503 && /not configured/i.test(error.message)) return 'config';
+    if (error.status === 429 || error.status === 502 || error.status === 503 || error.status === 504) return 'overloaded';
+    if (error.status < 500) return 'input';
+  }
+  return 'model';
+}
+
+function classified(category: ErrorCategory, detail: string): ClassifiedError {
+  return { category, ...CATEGORIES[category], detail };
+}
+
+/**
+ * Classify anything thrown while preparing, submitting or tracking a job
+ */
+export function classifyError(error: unknown, fallback: string = 'Something went wrong'): ClassifiedError {
+  const detail = error instanceof Error && error.message ? error.message : fallback;
+  return classified(categorize(error), detail);
+}
+
+/**
+ * Classify the `error` text of a job that ended as failed
+ */
+export function classifyJobFailure(message: string | null): ClassifiedError {
+  const detail = message || 'The job failed without an error message';
+  return classified(INPUT_FAILURE_PATTERN.test(detail) ? 'input' : 'model', detail);
+}
+
+/**
+ * A problem with the form caught before anything was sent
+ */
+export function invalidInput(message: string): ClassifiedError {
+  return classified('input', message);
+}
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { compressToBudget } from './compressionCore';
+import { compressImage, getCompressionDetails, ImageCompressionError, markAsCompressed } from './imageCompression';
+
+vi.mock('./compressionCore', () => ({
+  compressToBudget: vi.fn(async (file: File) => ({
+    file: new File(['encoded'], file.name.replace(/\.[^.]+$/, '.jpg'), { type: 'image/jpeg' }),
+    width: 800,
+    height: 600,
+    quality: 0.575,
+  })),
+}));
+
+const image = (type: string, name: string, size = 1024) => new File([new Uint8Array(size)], name, { type });
+
+beforeEach(() => {
+  vi.mocked(compressToBudget).mockClear();
+});
+
+// Without Worker and OffscreenCanvas in the test environment, encoding runs through compressToBudget directly
+describe('compressImage', () => {
+  it.each([
+    ['image/jpeg', 'photo.jpg'],
+    ['image/png', 'shirt.png'],
+    ['image/webp', 'skirt.webp'],
+  ])('passes small %s files through unchanged', async (type, name) => {
+    const file = image(type, name);
+    const onProgress = vi.fn();
+
+    expect(await compressImage(file, 1920, 1920, 0.8, 1, onProgress)).toBe(file);
+    expect(compressToBudget).not.toHaveBeenCalled();
+    expect(onProgress).toHaveBeenCalledWith(1);
+  });
+
+  it.each([
+    ['image/gif', 'jacket.gif'],
+    ['image/bmp', 'scan.bmp'],
+  ])('re-encodes small %s files the proxy would reject', async (type, name) => {
+    const result = await compressImage(image(type, name));
+
+    expect(compressToBudget).toHaveBeenCalledOnce();
+    expect(result.type).toBe('image/jpeg');
+  });
+
+  it('re-encodes files over the size budget', async () => {
+    const file = image('image/jpeg', 'large.jpg', 2 * 1024 * 1024);
+
+    await compressImage(file, 1024, 1024, 0.7, 1);
+
+    expect(compressToBudget).toHaveBeenCalledWith(
+      file,
+      { maxWidth: 1024, maxHeight: 1024, quality: 0.7, maxSizeMB: 1 },
+      undefined
+    );
+  });
+
+  it('never re-encodes files marked as already compressed', async () => {
+    const file = markAsCompressed(image('image/gif', 'saved.gif', 2 * 1024 * 1024));
+
+    expect(await compressImage(file)).toBe(file);
+    expect(compressToBudget).not.toHaveBeenCalled();
+  });
+
+  it('records how each returned file was prepared', async () => {
+    const small = image('image/png', 'shirt.png');
+    const saved = markAsCompressed(image('image/jpeg', 'model.jpg', 2 * 1024 * 1024));
+
+    const reencoded = await compressImage(image('image/gif', 'jacket.gif'));
+    await compressImage(small);
+    await compressImage(saved);
+
+    expect(getCompressionDetails(reencoded)).toEqual({
+      reencoded: true,
+      type: 'image/jpeg',
+      sizeBytes: 7,
+      width: 800,
+      height: 600,
+      quality: 0.575,
+    });
+    expect(getCompressionDetails(small)).toEqual({
+      reencoded: false,
+      type: 'image/png',
+      sizeBytes: 1024,
+      width: null,
+      height: null,
+      quality: null,
+    });
+    expect(getCompressionDetails(saved)).toMatchObject({ reencoded: false, sizeBytes: 2 * 1024 * 1024 });
+    expect(getCompressionDetails(image('image/jpeg', 'other.jpg'))).toBeNull();
+  });
+
+  it('wraps encoding failures with the file name', async () => {
+    vi.mocked(compressToBudget).mockRejectedValueOnce(new Error('The source image could not be decoded'));
+
+    const error = await compressImage(image('image/bmp', 'broken.bmp')).catch((err) => err);
+
+    expect(error).toBeInstanceOf(ImageCompressionError);
+    expect(error).toMatchObject({ fileName: 'broken.bmp' });
+    expect(error.message).toBe('Failed to prepare broken.bmp for upload: The source image could not be decoded');
+  });
+});
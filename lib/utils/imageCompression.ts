@@ -1,10 +1,155 @@
+import { createConcurrencyLimiter } from './concurrency';
+import { compressToBudget, type CompressedImage, type CompressionSettings } from './compressionCore';
+import type { CompressionRequest, CompressionResponse } from './compression.worker';
+
+// Files that are already compressed (e.g. loaded from the model library) and must not be re-encoded
+const precompressedFiles = new WeakSet<File>();
+
+/**
+ * How compressImage prepared a file for upload
+ */
+export interface CompressionDetails {
+  /** False when the file was sent as it was: small enough already, or compressed earlier (e.g. a saved model photo) */
+  reencoded: boolean;
+  type: string;
+  sizeBytes: number;
+  /** Encoded dimensions and quality; null for files that were not re-encoded */
+  width: number | null;
+  height: number | null;
+  quality: number | null;
+}
+
+// Keyed by the files compressImage returned
+const compressionDetails = new WeakMap<File, CompressionDetails>();
+
+/**
+ * How a file returned by compressImage was prepared, or null for any other file
+ */
+export function getCompressionDetails(file: File): CompressionDetails | null {
+  return compressionDetails.get(file) ?? null;
+}
+
+/**
+ * Mark a file as already compressed so compressImage passes it through unchanged
+ */
+export function markAsCompressed(file: File): File {
+  precompressedFiles.add(file);
+  return file;
+}
+
+/**
+ * Settings every upload to the backend is compressed with
+ */
+export const UPLOAD_COMPRESSION = {
+  maxWidth: 1920,
+  maxHeight: 1920,
+  quality: 0.8,
+  maxSizeMB: 1,
+} as const;
+
 /**
- * Compress an image file to reduce its size
+ * Thrown when an image can't be decoded or re-encoded for upload
+ */
+export class ImageCompressionError extends Error {
+  constructor(
+    message: string,
+    public readonly fileName: string,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = 'ImageCompressionError';
+  }
+}
+
+// Formats the try-on proxy accepts; anything else is re-encoded however small it is
+const UPLOADABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+type ProgressCallback = (progress: number) => void;
+
+interface PendingCompression {
+  resolve: (result: CompressedImage) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pending = new Map<number, PendingCompression>();
+
+/**
+ * The shared compression worker, created on first use. Returns null where workers or
+ * OffscreenCanvas are unavailable, or after the worker failed to start.
+ */
+function getWorker(): Worker | null {
+  if (worker || workerFailed) return worker;
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    workerFailed = true;
+    return null;
+  }
+
+  try {
+    worker = new Worker(new URL('./compression.worker.ts', import.meta.url), { type: 'module' });
+  } catch (err) {
+    console.warn('Failed to start the compression worker, compressing on the main thread:', err);
+    workerFailed = true;
+    return null;
+  }
+
+  worker.addEventListener('message', (event: MessageEvent<CompressionResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+
+    if (response.type === 'progress') {
+      request.onProgress?.(response.progress);
+      return;
+    }
+    pending.delete(response.id);
+    if (response.type === 'done') {
+      request.resolve(response.result);
+    } else {
+      request.reject(new Error(response.message));
+    }
+  });
+
+  // A worker that fails to load never answers, so reject everything waiting on it
+  worker.addEventListener('error', (event) => {
+    console.warn('Compression worker failed, compressing on the main thread:', event.message);
+    worker?.terminate();
+    worker = null;
+    workerFailed = true;
+    const error = new Error('Compression worker failed');
+    pending.forEach((request) => request.reject(error));
+    pending.clear();
+  });
+
+  return worker;
+}
+
+function compressInWorker(
+  target: Worker,
+  file: File,
+  settings: CompressionSettings,
+  onProgress?: ProgressCallback
+): Promise<CompressedImage> {
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject, onProgress });
+    target.postMessage({ id, file, settings } satisfies CompressionRequest);
+  });
+}
+
+/**
+ * Compress an image file to fit within the size budget. Decoding and encoding run in a
+ * Web Worker where supported, otherwise on the main thread. PNG and WebP inputs become
+ * WebP, everything else JPEG, so the returned file may have a different type and extension.
  * @param file - The image file to compress
  * @param maxWidth - Maximum width in pixels (default: 1920)
  * @param maxHeight - Maximum height in pixels (default: 1920)
- * @param quality - Compression quality 0-1 (default: 0.8)
+ * @param quality - Highest compression quality 0-1 to try (default: 0.8)
  * @param maxSizeMB - Maximum file size in MB (default: 1)
+ * @param onProgress - Called with 0-1 while the image is being encoded
  * @returns Compressed File object
  */
 export async function compressImage(
@@ -12,97 +157,61 @@ export async function compressImage(
   maxWidth: number = 1920,
   maxHeight: number = 1920,
   quality: number = 0.8,
-  maxSizeMB: number = 1
+  maxSizeMB: number = 1,
+  onProgress?: ProgressCallback
 ): Promise<File> {
-  return new Promise((resolve, reject) => {
-    // If file is already small enough, return as-is
-    if (file.size <= maxSizeMB * 1024 * 1024) {
-      resolve(file);
-      return;
-    }
+  // If file is already compressed, or small enough and in a format the proxy accepts, return as-is
+  if (
+    precompressedFiles.has(file) ||
+    (file.size <= maxSizeMB * 1024 * 1024 && UPLOADABLE_TYPES.includes(file.type))
+  ) {
+    onProgress?.(1);
+    compressionDetails.set(file, {
+      reencoded: false,
+      type: file.type,
+      sizeBytes: file.size,
+      width: null,
+      height: null,
+      quality: null,
+    });
+    return file;
+  }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const img = new Image();
-      img.onload = () => {
-        // Calculate new dimensions
-        let width = img.width;
-        let height = img.height;
-
-        if (width > maxWidth || height > maxHeight) {
-          const ratio = Math.min(maxWidth / width, maxHeight / height);
-          width = width * ratio;
-          height = height * ratio;
-        }
-
-        // Create canvas and draw resized image
-        const canvas = document.createElement('canvas');
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = canvas.getContext('2d');
-
-        if (!ctx) {
-          reject(new Error('Failed to get canvas context'));
-          return;
-        }
-
-        ctx.drawImage(img, 0, 0, width, height);
-
-        // Convert to blob with compression
-        canvas.toBlob(
-          (blob) => {
-            if (!blob) {
-              reject(new Error('Failed to compress image'));
-              return;
-            }
-
-            // If still too large, reduce quality further
-            if (blob.size > maxSizeMB * 1024 * 1024 && quality > 0.3) {
-              canvas.toBlob(
-                (smallerBlob) => {
-                  if (!smallerBlob) {
-                    // Fallback to original blob
-                    const compressedFile = new File([blob], file.name, {
-                      type: file.type || 'image/jpeg',
-                      lastModified: Date.now(),
-                    });
-                    resolve(compressedFile);
-                    return;
-                  }
-                  const compressedFile = new File([smallerBlob], file.name, {
-                    type: file.type || 'image/jpeg',
-                    lastModified: Date.now(),
-                  });
-                  resolve(compressedFile);
-                },
-                file.type || 'image/jpeg',
-                Math.max(0.3, quality - 0.2)
-              );
-            } else {
-              const compressedFile = new File([blob], file.name, {
-                type: file.type || 'image/jpeg',
-                lastModified: Date.now(),
-              });
-              resolve(compressedFile);
-            }
-          },
-          file.type || 'image/jpeg',
-          quality
-        );
-      };
-      img.onerror = () => reject(new Error('Failed to load image'));
-      img.src = e.target?.result as string;
-    };
-    reader.onerror = () => reject(new Error('Failed to read file'));
-    reader.readAsDataURL(file);
-  });
+  const settings: CompressionSettings = { maxWidth, maxHeight, quality, maxSizeMB };
+  try {
+    let result: CompressedImage | null = null;
+    const target = getWorker();
+    if (target) {
+      try {
+        result = await compressInWorker(target, file, settings, onProgress);
+      } catch (err) {
+        // Decoding errors would fail on the main thread as well
+        if (!workerFailed) throw err;
+      }
+    }
+    result ??= await compressToBudget(file, settings, onProgress);
+    compressionDetails.set(result.file, {
+      reencoded: true,
+      type: result.file.type,
+      sizeBytes: result.file.size,
+      width: result.width,
+      height: result.height,
+      quality: result.quality,
+    });
+    return result.file;
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : 'unknown error';
+    throw new ImageCompressionError(`Failed to prepare ${file.name} for upload: ${reason}`, file.name, { cause: err });
+  }
 }
 
 /**
- * Compress multiple image files
+ * Compress multiple image files, a few at a time
  * @param files - Array of image files to compress
  * @param options - Compression options
- * @returns Array of compressed File objects
+ * @param options.concurrency - Number of images compressed at once (default: 2)
+ * @param options.onProgress - Called with the combined 0-1 progress of all files
+ * @returns Array of compressed File objects, in the same order
  */
 export async function compressImages(
   files: File[],
@@ -111,6 +220,8 @@ export async function compressImages(
     maxHeight?: number;
     quality?: number;
     maxSizeMB?: number;
+    concurrency?: number;
+    onProgress?: ProgressCallback;
   }
 ): Promise<File[]> {
   const {
@@ -118,12 +229,54 @@ export async function compressImages(
     maxHeight = 1920,
     quality = 0.8,
     maxSizeMB = 1,
+    concurrency = 2,
+    onProgress,
   } = options || {};
 
-  const compressedFiles = await Promise.all(
-    files.map((file) => compressImage(file, maxWidth, maxHeight, quality, maxSizeMB))
+  const limiter = createConcurrencyLimiter(concurrency);
+  const progress = files.map(() => 0);
+  const report = (index: number) => (value: number) => {
+    progress[index] = value;
+    onProgress?.(progress.reduce((sum, current) => sum + current, 0) / files.length);
+  };
+
+  return Promise.all(
+    files.map((file, index) =>
+      limiter.run(() => compressImage(file, maxWidth, maxHeight, quality, maxSizeMB, report(index)))
+    )
   );
+}
+
+/**
+ * Create a small JPEG data URL preview of an image, e.g. for history records
+ * @param file - The image file to preview
+ * @param maxSize - Maximum width/height in pixels (default: 160)
+ * @returns Data URL of the thumbnail
+ */
+export async function createThumbnail(file: Blob, maxSize: number = 160): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const ratio = Math.min(1, maxSize / bitmap.width, maxSize / bitmap.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * ratio);
+    canvas.height = Math.round(bitmap.height * ratio);
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
 
-  return compressedFiles;
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } finally {
+    bitmap.close();
+  }
 }
 
+/**
+ * Compress an image with the shared upload settings
+ */
+export function compressForUpload(file: File, onProgress?: ProgressCallback): Promise<File> {
+  const { maxWidth, maxHeight, quality, maxSizeMB } = UPLOAD_COMPRESSION;
+  return compressImage(file, maxWidth, maxHeight, quality, maxSizeMB, onProgress);
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { detectConvertibleFormat, isImageFile } from './imageDecoding';
+
+/**
+ * ISO-BMFF file starting with an `ftyp` box, followed by the start of another box
+ */
+function ftyp(majorBrand: string, compatibleBrands: string[] = []): Blob {
+  const box = new Uint8Array(16 + compatibleBrands.length * 4);
+  const view = new DataView(box.buffer);
+  const ascii = (offset: number, text: string) => box.set(new TextEncoder().encode(text), offset);
+  view.setUint32(0, box.length);
+  ascii(4, 'ftyp');
+  ascii(8, majorBrand);
+  compatibleBrands.forEach((brand, index) => ascii(16 + index * 4, brand));
+  const next = new Uint8Array([0, 0, 0, 8, 0x6d, 0x65, 0x74, 0x61]); // "meta"
+  return new Blob([box, next]);
+}
+
+const bytes = (...values: number[]) => new Blob([new Uint8Array(values)]);
+
+describe('detectConvertibleFormat', () => {
+  it.each(['heic', 'heix', 'hevc', 'heim'])('detects HEIC from the %s major brand', async (brand) => {
+    expect(await detectConvertibleFormat(ftyp(brand, ['mif1']))).toBe('heic');
+  });
+
+  it('detects HEIC from a compatible brand', async () => {
+    expect(await detectConvertibleFormat(ftyp('mif1', ['miaf', 'heic']))).toBe('heic');
+  });
+
+  it('detects generic HEIF', async () => {
+    expect(await detectConvertibleFormat(ftyp('mif1', ['miaf']))).toBe('heif');
+    expect(await detectConvertibleFormat(ftyp('msf1'))).toBe('heif');
+  });
+
+  it('prefers AVIF over the HEIF brand it shares', async () => {
+    expect(await detectConvertibleFormat(ftyp('avif', ['mif1', 'miaf']))).toBe('avif');
+    expect(await detectConvertibleFormat(ftyp('mif1', ['avif']))).toBe('avif');
+    expect(await detectConvertibleFormat(ftyp('avis'))).toBe('avif');
+  });
+
+  it('ignores brands beyond the end of the ftyp box', async () => {
+    // The "meta" box right after must not be read as a compatible brand
+    expect(await detectConvertibleFormat(ftyp('isom'))).toBeNull();
+  });
+
+  it('detects TIFF in both byte orders', async () => {
+    expect(await detectConvertibleFormat(bytes(0x49, 0x49, 0x2a, 0x00, 8, 0, 0, 0))).toBe('tiff');
+    expect(await detectConvertibleFormat(bytes(0x4d, 0x4d, 0x00, 0x2a, 0, 0, 0, 8))).toBe('tiff');
+  });
+
+  it.each([
+    ['JPEG', bytes(0xff, 0xd8, 0xff, 0xe0, 0, 0x10, 0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1)],
+    ['PNG', bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d, 0x49, 0x48, 0x44, 0x52)],
+    ['MP4 video', ftyp('isom', ['iso2', 'mp41'])],
+    ['text', new Blob(['not an image at all, just some text'])],
+    ['an empty file', new Blob([])],
+  ])('returns null for %s', async (_, file) => {
+    expect(await detectConvertibleFormat(file)).toBeNull();
+  });
+});
+
+describe('isImageFile', () => {
+  it('accepts image MIME types and convertible extensions without a type', () => {
+    expect(isImageFile(new File([], 'photo.jpg', { type: 'image/jpeg' }))).toBe(true);
+    expect(isImageFile(new File([], 'IMG_0001.HEIC'))).toBe(true);
+    expect(isImageFile(new File([], 'scan.tif'))).toBe(true);
+    expect(isImageFile(new File([], 'notes.txt', { type: 'text/plain' }))).toBe(false);
+  });
+});
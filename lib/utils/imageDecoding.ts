@@ -0,0 +1,167 @@
+/**
+ * Formats that cameras and photo apps produce but that not every browser can decode,
+ * and that the backend does not accept
+ */
+export type ConvertibleFormat = 'heic' | 'heif' | 'avif' | 'tiff';
+
+const FORMAT_NAMES: Record<ConvertibleFormat, string> = {
+  heic: 'HEIC',
+  heif: 'HEIF',
+  avif: 'AVIF',
+  tiff: 'TIFF',
+};
+
+// HEIC/HEIF and AVIF are ISO-BMFF files identified by the brands in their `ftyp` box
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs'];
+const HEIF_BRANDS = ['mif1', 'msf1', 'heif'];
+const AVIF_BRANDS = ['avif', 'avis'];
+
+const CONVERTIBLE_EXTENSIONS = ['heic', 'heif', 'hif', 'avif', 'tif', 'tiff'];
+
+/**
+ * File picker `accept` value covering extensions that some systems report without an image MIME type
+ */
+export const IMAGE_ACCEPT = 'image/*,.heic,.heif,.avif,.tif,.tiff';
+
+// JPEG quality of converted images; they are compressed again before upload
+const CONVERTED_QUALITY = 0.92;
+
+/**
+ * Thrown when an image is in a format this browser can neither decode nor convert
+ */
+export class UnsupportedImageError extends Error {
+  constructor(
+    message: string,
+    public readonly format: ConvertibleFormat
+  ) {
+    super(message);
+    this.name = 'UnsupportedImageError';
+  }
+}
+
+function fileExtension(name: string): string {
+  const match = /\.([^.]+)$/.exec(name);
+  return match ? match[1].toLowerCase() : '';
+}
+
+/**
+ * Whether a file looks like an image, by MIME type or by extension. Browsers often
+ * report HEIC and TIFF files with an empty type.
+ */
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith('image/') || CONVERTIBLE_EXTENSIONS.includes(fileExtension(file.name));
+}
+
+/**
+ * Detect HEIC, HEIF, AVIF and TIFF files from their leading bytes, since the reported
+ * MIME type is often missing or generic
+ * @returns The format, or null for anything else (JPEG, PNG, WebP, GIF...)
+ */
+export async function detectConvertibleFormat(file: Blob): Promise<ConvertibleFormat | null> {
+  const bytes = new Uint8Array(await file.slice(0, 64).arrayBuffer());
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+  if (bytes.length >= 4) {
+    // Little-endian "II*\0" or big-endian "MM\0*"
+    if (
+      (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 0x2a && bytes[3] === 0x00) ||
+      (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0x00 && bytes[3] === 0x2a)
+    ) {
+      return 'tiff';
+    }
+  }
+
+  if (bytes.length >= 16 && ascii(4, 8) === 'ftyp') {
+    const boxSize = Math.min(bytes.length, new DataView(bytes.buffer).getUint32(0));
+    const majorBrand = ascii(8, 12);
+    const brands = [majorBrand];
+    // Compatible brands follow the major brand and minor version
+    for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+      brands.push(ascii(offset, offset + 4));
+    }
+    // `mif1` is shared by HEIF and AVIF, so look for the more specific brands first
+    if (brands.some((brand) => AVIF_BRANDS.includes(brand))) return 'avif';
+    if (brands.some((brand) => HEIC_BRANDS.includes(brand))) return 'heic';
+    if (brands.some((brand) => HEIF_BRANDS.includes(brand))) return 'heif';
+  }
+
+  return null;
+}
+
+async function decodeNatively(file: File): Promise<Blob> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    // JPEG has no alpha channel, so transparent areas are flattened onto white
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0);
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Failed to convert image'))),
+        'image/jpeg',
+        CONVERTED_QUALITY
+      );
+    });
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Decode HEIC/HEIF in JavaScript for browsers without a native decoder. The decoder
+ * is large, so it is only loaded when such a photo is picked.
+ */
+async function decodeHeic(file: File): Promise<Blob> {
+  const { default: heic2any } = await import('heic2any');
+  const result = await heic2any({ blob: file, toType: 'image/jpeg', quality: CONVERTED_QUALITY });
+  // Image sequences (e.g. burst photos) convert to several frames; keep the first
+  return Array.isArray(result) ? result[0] : result;
+}
+
+function unsupportedMessage(file: File, format: ConvertibleFormat): string {
+  const name = FORMAT_NAMES[format];
+  if (format === 'heic' || format === 'heif') {
+    return `${file.name} is a ${name} photo that could not be converted. Export it as JPEG, or set the iPhone camera to "Most Compatible" (Settings → Camera → Formats).`;
+  }
+  return `${file.name} is a ${name} image that this browser cannot open. Please convert it to JPEG or PNG first.`;
+}
+
+/**
+ * Convert HEIC, HEIF, AVIF and TIFF images to JPEG so they can be previewed, edited,
+ * compressed and uploaded like any other photo. Other files are returned unchanged.
+ * @throws UnsupportedImageError when the image cannot be decoded in this browser
+ */
+export async function convertToStandardFormat(file: File): Promise<File> {
+  const format = await detectConvertibleFormat(file);
+  if (!format) return file;
+
+  let converted: Blob | null = null;
+  try {
+    // Safari decodes HEIC and TIFF itself, and most browsers decode AVIF
+    converted = await decodeNatively(file);
+  } catch {
+    if (format === 'heic' || format === 'heif') {
+      try {
+        converted = await decodeHeic(file);
+      } catch (err) {
+        console.warn(`Failed to convert ${file.name}:`, err);
+      }
+    }
+  }
+
+  if (!converted) {
+    throw new UnsupportedImageError(unsupportedMessage(file, format), format);
+  }
+
+  const name = file.name.replace(/\.[^.]+$/, '') + '.jpg';
+  return new File([converted], name, { type: 'image/jpeg', lastModified: Date.now() });
+}
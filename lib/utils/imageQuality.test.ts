@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import {
+  QUALITY_PROFILES,
+  checkImageQuality,
+  checkUploads,
+  differenceHash,
+  exposureStats,
+  hammingDistance,
+  isNearDuplicate,
+  laplacianVariance,
+  toGrayscale,
+  type ImageAnalysis,
+} from './imageQuality';
+
+const SIZE = 32;
+
+function grayImage(pixel: (x: number, y: number) => number, width = SIZE, height = SIZE): Float32Array {
+  const gray = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) gray[y * width + x] = pixel(x, y);
+  }
+  return gray;
+}
+
+/**
+ * 3×3 box blur, leaving the border as it is
+ */
+function boxBlur(gray: Float32Array, width = SIZE, height = SIZE): Float32Array {
+  return grayImage(
+    (x, y) => {
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) return gray[y * width + x];
+      let sum = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) sum += gray[(y + dy) * width + x + dx];
+      }
+      return sum / 9;
+    },
+    width,
+    height
+  );
+}
+
+const checkerboard = grayImage((x, y) => ((Math.floor(x / 4) + Math.floor(y / 4)) % 2 ? 230 : 30));
+
+// A well-exposed, sharp, large photo; tests override one property at a time
+const goodPhoto: ImageAnalysis = {
+  width: 1024,
+  height: 1536,
+  sharpness: 200,
+  meanLuminance: 120,
+  shadowClip: 0.02,
+  highlightClip: 0.02,
+  hash: '0'.repeat(64),
+};
+
+const kindsOf = (issues: { kind: string }[]) => issues.map((issue) => issue.kind);
+
+describe('toGrayscale', () => {
+  it('weights the channels by Rec. 601 luma and ignores alpha', () => {
+    const rgba = new Uint8ClampedArray([255, 0, 0, 0, 0, 255, 0, 255, 0, 0, 255, 128, 255, 255, 255, 255]);
+
+    const gray = toGrayscale(rgba);
+
+    expect(Array.from(gray).map((value) => Math.round(value * 10) / 10)).toEqual([76.2, 149.7, 29.1, 255]);
+  });
+});
+
+describe('laplacianVariance', () => {
+  it('is zero for flat areas and smooth gradients', () => {
+    expect(laplacianVariance(grayImage(() => 128), SIZE, SIZE)).toBe(0);
+    expect(laplacianVariance(grayImage((x, y) => x * 3 + y * 2), SIZE, SIZE)).toBeCloseTo(0);
+  });
+
+  it('is high for sharp edges and drops when they are blurred', () => {
+    const sharp = laplacianVariance(checkerboard, SIZE, SIZE);
+    const blurred = laplacianVariance(boxBlur(boxBlur(checkerboard)), SIZE, SIZE);
+
+    expect(sharp).toBeGreaterThan(QUALITY_PROFILES.model.minSharpness * 100);
+    expect(blurred).toBeLessThan(sharp / 5);
+  });
+
+  it('returns 0 for images too small to have an interior', () => {
+    expect(laplacianVariance(grayImage(() => 0, 2, 2), 2, 2)).toBe(0);
+  });
+});
+
+describe('exposureStats', () => {
+  it('measures the mean and the clipped shadows and highlights', () => {
+    // Left quarter black, right quarter white, the middle mid-gray
+    const gray = grayImage((x) => (x < SIZE / 4 ? 0 : x >= (SIZE * 3) / 4 ? 255 : 128));
+
+    expect(exposureStats(gray)).toEqual({ meanLuminance: (0 + 255 + 2 * 128) / 4, shadowClip: 0.25, highlightClip: 0.25 });
+  });
+
+  it('counts an almost white image as clipped highlights', () => {
+    const stats = exposureStats(grayImage(() => 250));
+
+    expect(stats.highlightClip).toBe(1);
+    expect(stats.shadowClip).toBe(0);
+  });
+
+  it('handles empty input', () => {
+    expect(exposureStats(new Float32Array(0))).toEqual({ meanLuminance: 0, shadowClip: 0, highlightClip: 0 });
+  });
+});
+
+describe('near-duplicate hashes', () => {
+  const scene = grayImage((x, y) => (x * 37 + y * 11) % 97, 9, 8);
+
+  it('hashes each of the 64 horizontal neighbour pairs', () => {
+    expect(differenceHash(grayImage((x) => x, 9, 8))).toBe('1'.repeat(64));
+    expect(differenceHash(grayImage((x) => 9 - x, 9, 8))).toBe('0'.repeat(64));
+  });
+
+  it('gives the same hash after a brightness change', () => {
+    expect(differenceHash(scene.map((value) => value * 0.8 + 20))).toBe(differenceHash(scene));
+  });
+
+  it('counts differing bits, including any length difference', () => {
+    expect(hammingDistance('0110', '0110')).toBe(0);
+    expect(hammingDistance('0110', '1111')).toBe(2);
+    expect(hammingDistance('01', '0111')).toBe(2);
+  });
+
+  it('treats hashes up to 6 bits apart as the same photo', () => {
+    const withFlips = (count: number) => ({ ...goodPhoto, hash: '1'.repeat(count) + '0'.repeat(64 - count) });
+
+    expect(isNearDuplicate(goodPhoto, withFlips(6))).toBe(true);
+    expect(isNearDuplicate(goodPhoto, withFlips(7))).toBe(false);
+  });
+});
+
+describe('checkImageQuality', () => {
+  it('accepts a good model photo', () => {
+    expect(checkImageQuality(goodPhoto, QUALITY_PROFILES.model)).toEqual([]);
+  });
+
+  it('flags low resolution and unusual aspect ratios per profile', () => {
+    const small = { ...goodPhoto, width: 450, height: 600 };
+    const wide = { ...goodPhoto, width: 3000, height: 1000 };
+
+    expect(kindsOf(checkImageQuality(small, QUALITY_PROFILES.model))).toEqual(['resolution']);
+    expect(kindsOf(checkImageQuality(small, QUALITY_PROFILES.garment))).toEqual([]);
+    expect(kindsOf(checkImageQuality(wide, QUALITY_PROFILES.model))).toEqual(['aspect']);
+    expect(kindsOf(checkImageQuality(wide, QUALITY_PROFILES.garment))).toEqual([]);
+  });
+
+  it('allows softer garment shots than model photos', () => {
+    const soft = { ...goodPhoto, sharpness: 40 };
+
+    expect(kindsOf(checkImageQuality(soft, QUALITY_PROFILES.model))).toEqual(['blur']);
+    expect(kindsOf(checkImageQuality(soft, QUALITY_PROFILES.garment))).toEqual([]);
+  });
+
+  it('allows white flat-lay backgrounds for garments but not for model photos', () => {
+    const flatLay = { ...goodPhoto, meanLuminance: 230, highlightClip: 0.7 };
+
+    expect(checkImageQuality(flatLay, QUALITY_PROFILES.model)).toEqual([
+      { kind: 'exposure', message: 'Looks overexposed; details may be washed out' },
+    ]);
+    expect(checkImageQuality(flatLay, QUALITY_PROFILES.garment)).toEqual([]);
+  });
+
+  it('flags underexposure from the mean or from clipped shadows', () => {
+    const dark = { ...goodPhoto, meanLuminance: 30 };
+    const crushed = { ...goodPhoto, shadowClip: 0.45 };
+
+    expect(checkImageQuality(dark, QUALITY_PROFILES.garment)).toEqual([
+      { kind: 'exposure', message: 'Looks underexposed; details may be lost in shadows' },
+    ]);
+    expect(kindsOf(checkImageQuality(crushed, QUALITY_PROFILES.model))).toEqual(['exposure']);
+    expect(kindsOf(checkImageQuality(crushed, QUALITY_PROFILES.garment))).toEqual([]);
+  });
+});
+
+describe('checkUploads', () => {
+  it('flags duplicates within the group and against other uploads', () => {
+    const other = { ...goodPhoto, hash: '1'.repeat(64) };
+    const copyOfOther = { ...other, hash: '1'.repeat(62) + '00' };
+
+    const issues = checkUploads([goodPhoto, { ...goodPhoto }, copyOfOther], [other], QUALITY_PROFILES.garment);
+
+    expect(issues.map(kindsOf)).toEqual([['duplicate'], ['duplicate'], ['duplicate']]);
+  });
+
+  it('keeps per-image issues in upload order', () => {
+    const blurry = { ...goodPhoto, sharpness: 5, hash: '1'.repeat(32) + '0'.repeat(32) };
+
+    const issues = checkUploads([goodPhoto, blurry], [], QUALITY_PROFILES.model);
+
+    expect(issues.map(kindsOf)).toEqual([[], ['blur']]);
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Pre-flight checks that flag inputs likely to produce a bad try-on before a job is
+ * submitted. The pixel statistics are plain functions over grayscale data, so they can
+ * be exercised without a canvas.
+ */
+
+export type QualityIssueKind = 'resolution' | 'aspect' | 'blur' | 'exposure' | 'duplicate';
+
+export interface QualityIssue {
+  kind: QualityIssueKind;
+  message: string;
+}
+
+export interface ImageAnalysis {
+  width: number;
+  height: number;
+  /** Variance of the Laplacian at analysis size; low values mean few sharp edges */
+  sharpness: number;
+  /** Mean luminance, 0-255 */
+  meanLuminance: number;
+  /** Fraction of pixels that are nearly black */
+  shadowClip: number;
+  /** Fraction of pixels that are nearly white */
+  highlightClip: number;
+  /** 64-bit difference hash as a string of 0s and 1s */
+  hash: string;
+}
+
+export interface QualityProfile {
+  /** Minimum length of the shorter side, in pixels */
+  minShortSide: number;
+  /** Accepted width / height range */
+  minAspect: number;
+  maxAspect: number;
+  minSharpness: number;
+  minMeanLuminance: number;
+  maxMeanLuminance: number;
+  maxShadowClip: number;
+  maxHighlightClip: number;
+}
+
+/**
+ * Thresholds per input kind. Garment shots are often flat-lays on a white background,
+ * so they allow far more bright pixels and fewer edges than model photos.
+ */
+export const QUALITY_PROFILES = {
+  model: {
+    minShortSide: 512,
+    minAspect: 0.4,
+    maxAspect: 1.5,
+    minSharpness: 60,
+    minMeanLuminance: 45,
+    maxMeanLuminance: 215,
+    maxShadowClip: 0.4,
+    maxHighlightClip: 0.35,
+  },
+  garment: {
+    minShortSide: 384,
+    minAspect: 0.25,
+    maxAspect: 4,
+    minSharpness: 25,
+    minMeanLuminance: 45,
+    maxMeanLuminance: 245,
+    maxShadowClip: 0.5,
+    maxHighlightClip: 0.9,
+  },
+} satisfies Record<string, QualityProfile>;
+
+export type QualityProfileName = keyof typeof QUALITY_PROFILES;
+
+// Longest side the image is scaled to before measuring sharpness and exposure
+const ANALYSIS_SIZE = 512;
+const SHADOW_LEVEL = 16;
+const HIGHLIGHT_LEVEL = 240;
+// Hashes differing in at most this many of 64 bits are treated as the same photo
+const DUPLICATE_DISTANCE = 6;
+
+/**
+ * Convert RGBA pixel data to luminance (Rec. 601)
+ */
+export function toGrayscale(rgba: Uint8ClampedArray): Float32Array {
+  const gray = new Float32Array(rgba.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return gray;
+}
+
+/**
+ * Variance of the 4-neighbour Laplacian, a standard blur estimate
+ */
+export function laplacianVariance(gray: Float32Array, width: number, height: number): number {
+  if (width < 3 || height < 3) return 0;
+
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += value;
+      sumOfSquares += value * value;
+    }
+  }
+  const count = (width - 2) * (height - 2);
+  const mean = sum / count;
+  return sumOfSquares / count - mean * mean;
+}
+
+/**
+ * Mean luminance and the share of clipped shadows and highlights
+ */
+export function exposureStats(gray: Float32Array): Pick<ImageAnalysis, 'meanLuminance' | 'shadowClip' | 'highlightClip'> {
+  if (gray.length === 0) return { meanLuminance: 0, shadowClip: 0, highlightClip: 0 };
+
+  let sum = 0;
+  let shadows = 0;
+  let highlights = 0;
+  for (const value of gray) {
+    sum += value;
+    if (value <= SHADOW_LEVEL) shadows++;
+    if (value >= HIGHLIGHT_LEVEL) highlights++;
+  }
+  return {
+    meanLuminance: sum / gray.length,
+    shadowClip: shadows / gray.length,
+    highlightClip: highlights / gray.length,
+  };
+}
+
+/**
+ * Difference hash of a 9×8 grayscale image: one bit per horizontally adjacent pair
+ */
+export function differenceHash(gray: Float32Array): string {
+  let hash = '';
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      hash += gray[y * 9 + x] < gray[y * 9 + x + 1] ? '1' : '0';
+    }
+  }
+  return hash;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = Math.abs(a.length - b.length);
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) distance++;
+  }
+  return distance;
+}
+
+export function isNearDuplicate(a: ImageAnalysis, b: ImageAnalysis): boolean {
+  return hammingDistance(a.hash, b.hash) <= DUPLICATE_DISTANCE;
+}
+
+/**
+ * Check one image against a profile. Duplicates are checked separately because they
+ * depend on the other uploads.
+ */
+export function checkImageQuality(analysis: ImageAnalysis, profile: QualityProfile): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  const shortSide = Math.min(analysis.width, analysis.height);
+  const aspect = analysis.width / analysis.height;
+
+  if (shortSide < profile.minShortSide) {
+    issues.push({
+      kind: 'resolution',
+      message: `Low resolution (${analysis.width}×${analysis.height}); at least ${profile.minShortSide}px on the short side is recommended`,
+    });
+  }
+  if (aspect < profile.minAspect || aspect > profile.maxAspect) {
+    issues.push({
+      kind: 'aspect',
+      message: `Unusual aspect ratio (${analysis.width}×${analysis.height}); the subject may be cropped or distorted`,
+    });
+  }
+  if (analysis.sharpness < profile.minSharpness) {
+    issues.push({ kind: 'blur', message: 'Looks blurry or out of focus' });
+  }
+  if (analysis.meanLuminance > profile.maxMeanLuminance || analysis.highlightClip > profile.maxHighlightClip) {
+    issues.push({ kind: 'exposure', message: 'Looks overexposed; details may be washed out' });
+  } else if (analysis.meanLuminance < profile.minMeanLuminance || analysis.shadowClip > profile.maxShadowClip) {
+    issues.push({ kind: 'exposure', message: 'Looks underexposed; details may be lost in shadows' });
+  }
+  return issues;
+}
+
+/**
+ * Check a group of uploads, flagging each image that is a near-duplicate of another one
+ * in the group or of any image in `others`
+ * @returns The issues of each image in `uploads`, in the same order
+ */
+export function checkUploads(
+  uploads: ImageAnalysis[],
+  others: ImageAnalysis[],
+  profile: QualityProfile
+): QualityIssue[][] {
+  return uploads.map((analysis, index) => {
+    const issues = checkImageQuality(analysis, profile);
+    const candidates = [...uploads.filter((_, i) => i !== index), ...others];
+    if (candidates.some((other) => isNearDuplicate(analysis, other))) {
+      issues.push({ kind: 'duplicate', message: 'Looks like a near-duplicate of another upload' });
+    }
+    return issues;
+  });
+}
+
+function readGrayscale(bitmap: ImageBitmap, width: number, height: number): Float32Array {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return toGrayscale(ctx.getImageData(0, 0, width, height).data);
+}
+
+// Files are immutable, so each one only needs to be decoded and measured once
+const analysisCache = new WeakMap<Blob, Promise<ImageAnalysis>>();
+
+/**
+ * Measure the resolution, sharpness, exposure and perceptual hash of an image
+ */
+export function analyzeImage(file: Blob): Promise<ImageAnalysis> {
+  let analysis = analysisCache.get(file);
+  if (!analysis) {
+    analysis = measureImage(file);
+    analysisCache.set(file, analysis);
+    // Let a failed decode be retried rather than caching the rejection
+    analysis.catch(() => analysisCache.delete(file));
+  }
+  return analysis;
+}
+
+async function measureImage(file: Blob): Promise<ImageAnalysis> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const scale = Math.min(1, ANALYSIS_SIZE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const gray = readGrayscale(bitmap, width, height);
+
+    return {
+      width: bitmap.width,
+      height: bitmap.height,
+      sharpness: laplacianVariance(gray, width, height),
+      ...exposureStats(gray),
+      hash: differenceHash(readGrayscale(bitmap, 9, 8)),
+    };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { readExifOrientation } from './imageTransform';
+
+type ByteOrder = 'motorola' | 'intel';
+
+/**
+ * Minimal JPEG with a JFIF segment followed by an EXIF APP1 block. The IFD holds
+ * a camera make entry before the orientation so the entry scan is exercised.
+ */
+function jpegWithExif(orientation: number, byteOrder: ByteOrder): Uint8Array {
+  const littleEndian = byteOrder === 'intel';
+  const tiff = new DataView(new ArrayBuffer(8 + 2 + 2 * 12 + 4));
+  tiff.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  tiff.setUint16(2, 42, littleEndian);
+  tiff.setUint32(4, 8, littleEndian); // First IFD right after the header
+  tiff.setUint16(8, 2, littleEndian);
+  // Make (ASCII, 4 bytes inline)
+  tiff.setUint16(10, 0x010f, littleEndian);
+  tiff.setUint16(12, 2, littleEndian);
+  tiff.setUint32(14, 4, littleEndian);
+  tiff.setUint32(18, 0x41424300);
+  // Orientation (SHORT, 1 value)
+  tiff.setUint16(22, 0x0112, littleEndian);
+  tiff.setUint16(24, 3, littleEndian);
+  tiff.setUint32(26, 1, littleEndian);
+  tiff.setUint16(30, orientation, littleEndian);
+
+  const app1Length = 2 + 6 + tiff.byteLength;
+  return new Uint8Array([
+    0xff, 0xd8,
+    // APP0 "JFIF\0" with a 16 byte segment
+    0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00,
+    0xff, 0xe1, app1Length >> 8, app1Length & 0xff,
+    0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+    ...new Uint8Array(tiff.buffer),
+    0xff, 0xda, 0x00, 0x02,
+  ]);
+}
+
+const blob = (bytes: Uint8Array) => new Blob([bytes as Uint8Array<ArrayBuffer>], { type: 'image/jpeg' });
+
+describe('readExifOrientation', () => {
+  describe.each<ByteOrder>(['motorola', 'intel'])('%s byte order', (byteOrder) => {
+    it.each([1, 2, 3, 4, 5, 6, 7, 8])('reads orientation %i', async (orientation) => {
+      expect(await readExifOrientation(blob(jpegWithExif(orientation, byteOrder)))).toBe(orientation);
+    });
+
+    it('ignores out-of-range orientation values', async () => {
+      expect(await readExifOrientation(blob(jpegWithExif(9, byteOrder)))).toBe(1);
+    });
+  });
+
+  it('falls back to 1 when the EXIF block is truncated', async () => {
+    const bytes = jpegWithExif(6, 'motorola');
+
+    // Cut inside the orientation entry, then inside the TIFF header
+    expect(await readExifOrientation(blob(bytes.slice(0, 20 + 10 + 22 + 4)))).toBe(1);
+    expect(await readExifOrientation(blob(bytes.slice(0, 20 + 10 + 4)))).toBe(1);
+  });
+
+  it('returns 1 for JPEGs without EXIF and for other files', async () => {
+    expect(await readExifOrientation(blob(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02])))).toBe(1);
+    expect(await readExifOrientation(blob(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])))).toBe(1);
+    expect(await readExifOrientation(blob(new Uint8Array([])))).toBe(1);
+  });
+});
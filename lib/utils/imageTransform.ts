@@ -0,0 +1,135 @@
+/**
+ * Crop rectangle as fractions (0-1) of the rotated and flipped image
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface ImageEdit {
+  rotation: Rotation;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  crop: CropRect;
+}
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const NO_EDIT: ImageEdit = { rotation: 0, flipHorizontal: false, flipVertical: false, crop: FULL_CROP };
+
+// Only the start of the file is read; the EXIF block sits right after the JPEG header
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+/**
+ * Read the EXIF orientation tag of a JPEG
+ * @returns The orientation (1-8), or 1 when the file has none
+ */
+export async function readExifOrientation(file: Blob): Promise<number> {
+  const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, littleEndian);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, littleEndian);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    // Stop at the image data; markers without a length never precede EXIF
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1;
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+function canvasToFile(canvas: HTMLCanvasElement, source: File): Promise<File> {
+  // PNGs keep their transparency, everything else becomes a high-quality JPEG
+  const type = source.type === 'image/png' ? 'image/png' : 'image/jpeg';
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error('Failed to encode the edited image'));
+          return;
+        }
+        const name = type === source.type ? source.name : source.name.replace(/\.[^.]+$/, '') + '.jpg';
+        resolve(new File([blob], name, { type, lastModified: Date.now() }));
+      },
+      type,
+      0.92
+    );
+  });
+}
+
+/**
+ * Rotate, flip and crop an image. The EXIF orientation is applied first, so the
+ * result is always upright and carries no orientation tag.
+ * @param maxSize - Optional limit for the longest side, e.g. for a quick preview
+ */
+export async function applyImageEdit(file: File, edit: ImageEdit, maxSize?: number): Promise<File> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const quarterTurn = edit.rotation === 90 || edit.rotation === 270;
+    const rotatedWidth = quarterTurn ? bitmap.height : bitmap.width;
+    const rotatedHeight = quarterTurn ? bitmap.width : bitmap.height;
+
+    const cropWidth = edit.crop.width * rotatedWidth;
+    const cropHeight = edit.crop.height * rotatedHeight;
+    const scale = maxSize ? Math.min(1, maxSize / Math.max(cropWidth, cropHeight)) : 1;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(cropWidth * scale));
+    canvas.height = Math.max(1, Math.round(cropHeight * scale));
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    ctx.scale(scale, scale);
+    // Move the crop origin to (0, 0), then rotate and flip around the centre of the full image
+    ctx.translate(-edit.crop.x * rotatedWidth, -edit.crop.y * rotatedHeight);
+    ctx.translate(rotatedWidth / 2, rotatedHeight / 2);
+    ctx.scale(edit.flipHorizontal ? -1 : 1, edit.flipVertical ? -1 : 1);
+    ctx.rotate((edit.rotation * Math.PI) / 180);
+    ctx.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+
+    return await canvasToFile(canvas, file);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Bake the EXIF orientation of a photo into its pixels. Files that are already
+ * upright are returned unchanged.
+ */
+export async function normalizeOrientation(file: File): Promise<File> {
+  try {
+    const orientation = await readExifOrientation(file);
+    return orientation === 1 ? file : await applyImageEdit(file, NO_EDIT);
+  } catch (err) {
+    // Keep the original rather than blocking the upload
+    console.warn('Failed to normalize image orientation:', err);
+    return file;
+  }
+}
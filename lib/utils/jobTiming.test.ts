@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { estimateDurations, estimateRemainingMs, measurePhases, type JobTimestamps } from './jobTiming';
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 0, 0, seconds)).toISOString();
+const now = Date.parse(at(0));
+
+const job = (created: number, started: number | null, completed: number | null): JobTimestamps => ({
+  createdAt: at(created),
+  startedAt: started === null ? null : at(started),
+  completedAt: completed === null ? null : at(completed),
+});
+
+describe('measurePhases', () => {
+  it('measures a queued job up to now', () => {
+    expect(measurePhases(job(0, null, null), now + 4000)).toEqual({ queuedMs: 4000, processingMs: null, elapsedMs: 4000 });
+  });
+
+  it('measures a processing job up to now', () => {
+    expect(measurePhases(job(0, 3, null), now + 10000)).toEqual({ queuedMs: 3000, processingMs: 7000, elapsedMs: 10000 });
+  });
+
+  it('stops the clock once the job completed', () => {
+    expect(measurePhases(job(0, 3, 13), now + 60000)).toEqual({ queuedMs: 3000, processingMs: 10000, elapsedMs: 13000 });
+  });
+
+  it('clamps spans from clock skew to zero', () => {
+    expect(measurePhases(job(10, null, null), now)).toEqual({ queuedMs: 0, processingMs: null, elapsedMs: 0 });
+  });
+
+  it('returns null spans without timestamps', () => {
+    expect(measurePhases({ createdAt: null, startedAt: null, completedAt: null }, now)).toEqual({
+      queuedMs: null,
+      processingMs: null,
+      elapsedMs: null,
+    });
+  });
+});
+
+describe('estimateDurations', () => {
+  it('takes the median of succeeded jobs only', () => {
+    const estimate = estimateDurations([
+      { ...job(0, 2, 12), status: 'succeeded' },
+      { ...job(0, 4, 24), status: 'succeeded' },
+      { ...job(0, 6, 16), status: 'succeeded' },
+      { ...job(0, 100, 200), status: 'failed' },
+      { ...job(0, 100, 200), status: null },
+    ]);
+
+    expect(estimate).toEqual({ queuedMs: 4000, processingMs: 10000, sampleSize: 3 });
+  });
+
+  it('averages the middle pair for an even number of jobs', () => {
+    const estimate = estimateDurations([
+      { ...job(0, 2, 12), status: 'succeeded' },
+      { ...job(0, 4, 24), status: 'succeeded' },
+    ]);
+
+    expect(estimate).toEqual({ queuedMs: 3000, processingMs: 15000, sampleSize: 2 });
+  });
+
+  it('only uses the most recent jobs', () => {
+    const estimate = estimateDurations(
+      [
+        { ...job(0, 1, 2), status: 'succeeded' },
+        { ...job(0, 50, 100), status: 'succeeded' },
+      ],
+      1
+    );
+
+    expect(estimate).toEqual({ queuedMs: 1000, processingMs: 1000, sampleSize: 1 });
+  });
+
+  it('skips jobs with missing timestamps', () => {
+    expect(estimateDurations([{ ...job(0, null, 10), status: 'succeeded' }])).toBeNull();
+  });
+
+  it('returns null without any finished job', () => {
+    expect(estimateDurations([])).toBeNull();
+  });
+});
+
+describe('estimateRemainingMs', () => {
+  const estimate = { queuedMs: 5000, processingMs: 20000, sampleSize: 3 };
+
+  it('adds the remaining queue time to the processing time while queued', () => {
+    expect(estimateRemainingMs('starting', job(0, null, null), estimate, now + 2000)).toBe(23000);
+  });
+
+  it('counts down the processing time while processing', () => {
+    expect(estimateRemainingMs('processing', job(0, 5, null), estimate, now + 15000)).toBe(10000);
+  });
+
+  it('never goes below zero for a job running over the estimate', () => {
+    expect(estimateRemainingMs('processing', job(0, 5, null), estimate, now + 60000)).toBe(0);
+  });
+
+  it('returns null for finished jobs or without an estimate', () => {
+    expect(estimateRemainingMs('succeeded', job(0, 5, 25), estimate, now)).toBeNull();
+    expect(estimateRemainingMs('processing', job(0, 5, null), null, now)).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+import type { JobStatus } from '@/lib/api/matchingSet';
+
+/**
+ * Steps a try-on goes through, from the browser's work to the backend's
+ */
+export type JobPhase = 'compressing' | 'uploading' | 'queued' | 'processing' | 'done';
+
+export const JOB_PHASES: { phase: JobPhase; label: string }[] = [
+  { phase: 'compressing', label: 'Compressing' },
+  { phase: 'uploading', label: 'Uploading' },
+  { phase: 'queued', label: 'Queued' },
+  { phase: 'processing', label: 'Processing' },
+  { phase: 'done', label: 'Done' },
+];
+
+/**
+ * Backend timestamps of a job, as ISO strings
+ */
+export interface JobTimestamps {
+  createdAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+/**
+ * Typical time recent jobs spent waiting and generating
+ */
+export interface DurationEstimate {
+  queuedMs: number;
+  processingMs: number;
+  /** Number of jobs the estimate is based on */
+  sampleSize: number;
+}
+
+// Recent jobs say more about the current backend load than old ones
+const DEFAULT_SAMPLE_SIZE = 20;
+
+const toTime = (value: string | null): number | null => {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+};
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export function phaseForStatus(status: JobStatus): JobPhase {
+  switch (status) {
+    case 'starting':
+      return 'queued';
+    case 'processing':
+      return 'processing';
+    default:
+      return 'done';
+  }
+}
+
+/**
+ * Time spent queued and processing so far (or in total, once finished). Negative spans
+ * from clock skew between the browser and the backend are clamped to zero.
+ */
+export function measurePhases(timestamps: JobTimestamps, now: number = Date.now()) {
+  const created = toTime(timestamps.createdAt);
+  const started = toTime(timestamps.startedAt);
+  const completed = toTime(timestamps.completedAt);
+  const span = (from: number | null, to: number) => (from === null ? null : Math.max(0, to - from));
+
+  return {
+    queuedMs: span(created, started ?? completed ?? now),
+    processingMs: started === null ? null : span(started, completed ?? now),
+    elapsedMs: span(created, completed ?? now),
+  };
+}
+
+/**
+ * Median queue and processing time of the most recent successful jobs, newest first.
+ * Returns null without any finished job to go on.
+ */
+export function estimateDurations(
+  jobs: (JobTimestamps & { status: JobStatus | null })[],
+  sampleSize: number = DEFAULT_SAMPLE_SIZE
+): DurationEstimate | null {
+  const samples = jobs
+    .filter((job) => job.status === 'succeeded')
+    .map((job) => ({
+      created: toTime(job.createdAt),
+      started: toTime(job.startedAt),
+      completed: toTime(job.completedAt),
+    }))
+    .filter((job): job is { created: number; started: number; completed: number } =>
+      job.created !== null && job.started !== null && job.completed !== null
+    )
+    .slice(0, sampleSize);
+
+  if (samples.length === 0) return null;
+  return {
+    queuedMs: median(samples.map((job) => Math.max(0, job.started - job.created))),
+    processingMs: median(samples.map((job) => Math.max(0, job.completed - job.started))),
+    sampleSize: samples.length,
+  };
+}
+
+/**
+ * Expected time until a running job finishes, or null when it can't be estimated.
+ * A job that runs over the estimate gets 0 rather than a negative ETA.
+ */
+export function estimateRemainingMs(
+  status: JobStatus,
+  timestamps: JobTimestamps,
+  estimate: DurationEstimate | null,
+  now: number = Date.now()
+): number | null {
+  if (!estimate || (status !== 'starting' && status !== 'processing')) return null;
+
+  const { queuedMs, processingMs } = measurePhases(timestamps, now);
+  if (status === 'starting') {
+    return Math.max(0, estimate.queuedMs - (queuedMs ?? 0)) + estimate.processingMs;
+  }
+  return Math.max(0, estimate.processingMs - (processingMs ?? 0));
+}
+
+/**
+ * Format a duration as `42s`, `3m 05s` or `1h 02m`
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  if (hours > 0) return `${hours}h ${pad(minutes)}m`;
+  if (minutes > 0) return `${minutes}m ${pad(seconds)}s`;
+  return `${seconds}s`;
+}
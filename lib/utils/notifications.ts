@@ -0,0 +1,30 @@
+/**
+ * Ask for permission to show system notifications. Browsers only allow the prompt in
+ * response to a user action, so call this from an event handler (e.g. on submit).
+ */
+export function requestNotificationPermission(): void {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'default') return;
+  Notification.requestPermission().catch((err) => console.warn('Failed to request notification permission:', err));
+}
+
+/**
+ * Show a system notification, but only while the page is in the background; in the
+ * foreground the page shows its own notice
+ */
+export function showSystemNotification(title: string, body: string, onClick?: () => void): void {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted' || !document.hidden) {
+    return;
+  }
+
+  try {
+    const notification = new Notification(title, { body });
+    notification.onclick = () => {
+      window.focus();
+      onClick?.();
+      notification.close();
+    };
+  } catch (err) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn('Failed to show notification:', err);
+  }
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addStep,
+  createOutfitTree,
+  createStep,
+  getChildren,
+  getPath,
+  getStepResult,
+  insertStep,
+  removeStep,
+  updateStep,
+  type NewOutfitStep,
+  type OutfitStep,
+  type OutfitTree,
+} from './outfitTree';
+
+/**
+ * Add several steps in turn, returning the tree and the steps in the order given
+ */
+function addSteps(tree: OutfitTree, ...steps: Array<(added: OutfitStep[]) => NewOutfitStep>) {
+  const added: OutfitStep[] = [];
+  for (const build of steps) {
+    const result = addStep(tree, build(added));
+    tree = result.tree;
+    added.push(result.step);
+  }
+  return { tree, steps: added };
+}
+
+// base ─┬─ top ── bottom
+//       └─ dress
+function buildTree() {
+  const {
+    tree,
+    steps: [base, top, bottom, dress],
+  } = addSteps(
+    createOutfitTree(),
+    () => ({ parentId: null, kind: 'base', modelImage: 'model.jpg', createdAt: 1 }),
+    ([base]) => ({ parentId: base.id, kind: 'layer', createdAt: 2 }),
+    ([, top]) => ({ parentId: top.id, kind: 'layer', createdAt: 3 }),
+    ([base]) => ({ parentId: base.id, kind: 'layer', createdAt: 4 })
+  );
+  return { tree, base, top, bottom, dress };
+}
+
+const idsOf = (tree: OutfitTree) => Object.keys(tree.steps).sort();
+
+describe('addStep', () => {
+  it('fills in defaults and leaves the original tree untouched', () => {
+    const tree = createOutfitTree();
+
+    const { tree: next, step } = addStep(tree, { parentId: null, kind: 'base' });
+
+    expect(step).toMatchObject({ parentId: null, kind: 'base', garments: {}, outputs: [], status: null });
+    expect(next.steps[step.id]).toBe(step);
+    expect(tree.steps).toEqual({});
+  });
+});
+
+describe('createStep and insertStep', () => {
+  it('inserts a step created earlier into the tree as it is by then', () => {
+    const { tree, top } = buildTree();
+    const layer = createStep({ parentId: top.id, kind: 'layer', createdAt: 5 });
+    // The tree changes while the layer is being submitted
+    const latest = updateStep(tree, top.id, { status: 'succeeded' });
+
+    const next = insertStep(latest, layer);
+
+    expect(next.steps[layer.id]).toBe(layer);
+    expect(next.steps[top.id].status).toBe('succeeded');
+    expect(getChildren(next, top.id)).toHaveLength(2);
+  });
+
+  it('finds descendants whatever order the steps were inserted in', () => {
+    const base = createStep({ parentId: null, kind: 'base', createdAt: 1 });
+    const layer = createStep({ parentId: base.id, kind: 'layer', createdAt: 2 });
+    const tree = insertStep(insertStep(createOutfitTree(), layer), base);
+
+    expect(idsOf(removeStep(tree, base.id))).toEqual([]);
+  });
+});
+
+describe('removeStep', () => {
+  it('removes a step together with everything branched from it', () => {
+    const { tree, base, top, dress } = buildTree();
+
+    expect(idsOf(removeStep(tree, top.id))).toEqual([base.id, dress.id].sort());
+  });
+
+  it('leaves the tree as it is for an unknown id', () => {
+    const { tree } = buildTree();
+
+    expect(idsOf(removeStep(tree, 'missing'))).toEqual(idsOf(tree));
+  });
+
+  it('does not modify the original tree', () => {
+    const { tree, base } = buildTree();
+    const before = idsOf(tree);
+
+    removeStep(tree, base.id);
+
+    expect(idsOf(tree)).toEqual(before);
+  });
+});
+
+describe('updateStep', () => {
+  it('merges changes into the step and keeps the others', () => {
+    const { tree, top, dress } = buildTree();
+
+    const next = updateStep(tree, top.id, { status: 'succeeded', outputs: ['a.png'] });
+
+    expect(next.steps[top.id]).toEqual({ ...top, status: 'succeeded', outputs: ['a.png'] });
+    expect(next.steps[dress.id]).toBe(dress);
+    expect(tree.steps[top.id].status).toBeNull();
+  });
+
+  it('returns the same tree for an unknown id', () => {
+    const { tree } = buildTree();
+
+    expect(updateStep(tree, 'missing', { status: 'failed' })).toBe(tree);
+  });
+});
+
+describe('getChildren and getPath', () => {
+  it('lists children in creation order', () => {
+    const { tree, base, top, dress } = buildTree();
+
+    expect(getChildren(tree, null)).toEqual([base]);
+    expect(getChildren(tree, base.id)).toEqual([top, dress]);
+  });
+
+  it('walks from the root down to the step', () => {
+    const { tree, base, top, bottom } = buildTree();
+
+    expect(getPath(tree, bottom.id)).toEqual([base, top, bottom]);
+    expect(getPath(tree, null)).toEqual([]);
+  });
+});
+
+describe('getStepResult', () => {
+  it('uses the model photo for base steps and the chosen output for layers', () => {
+    const { tree, base, top } = buildTree();
+    const layer = updateStep(tree, top.id, { outputs: ['a.png', 'b.png'] }).steps[top.id];
+
+    expect(getStepResult(base)).toBe('model.jpg');
+    expect(getStepResult(layer)).toBe('a.png');
+    expect(getStepResult({ ...layer, selectedOutput: 'b.png' })).toBe('b.png');
+    expect(getStepResult(top)).toBeNull();
+  });
+});
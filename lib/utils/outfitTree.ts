@@ -0,0 +1,123 @@
+import type { JobStatus } from '@/lib/api/matchingSet';
+import type { ClothingType } from './clothingSlots';
+
+/**
+ * One try-on state. A `base` step is the uploaded model photo; every `layer`
+ * step is a generation that added garments on top of its parent's output.
+ */
+export interface OutfitStep {
+  id: string;
+  parentId: string | null;
+  kind: 'base' | 'layer';
+  /** Thumbnail of the model image that went in (the photo itself for base steps) */
+  modelImage: string | null;
+  /** Thumbnails of the garments added in this step */
+  garments: Partial<Record<ClothingType, string>>;
+  predictionId: string | null;
+  status: JobStatus | null;
+  /** Seed and variation count the job was generated with, so it can be reproduced */
+  seed: number | null;
+  numOutputs: number;
+  outputs: string[];
+  /** Output used as the model when layering on top of this step */
+  selectedOutput: string | null;
+  createdAt: number;
+}
+
+export interface OutfitTree {
+  steps: Record<string, OutfitStep>;
+}
+
+export type NewOutfitStep = Pick<OutfitStep, 'parentId' | 'kind'> & Partial<Omit<OutfitStep, 'id' | 'parentId' | 'kind'>>;
+
+export function createOutfitTree(): OutfitTree {
+  return { steps: {} };
+}
+
+function createStepId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Create a step without adding it, so it can be inserted into whatever the tree is by then
+ */
+export function createStep(step: NewOutfitStep): OutfitStep {
+  return {
+    id: createStepId(),
+    modelImage: null,
+    garments: {},
+    predictionId: null,
+    status: null,
+    seed: null,
+    numOutputs: 1,
+    outputs: [],
+    selectedOutput: null,
+    createdAt: Date.now(),
+    ...step,
+  };
+}
+
+export function insertStep(tree: OutfitTree, step: OutfitStep): OutfitTree {
+  return { steps: { ...tree.steps, [step.id]: step } };
+}
+
+/**
+ * Add a step to the tree
+ * @returns The updated tree and the new step
+ */
+export function addStep(tree: OutfitTree, step: NewOutfitStep): { tree: OutfitTree; step: OutfitStep } {
+  const newStep = createStep(step);
+  return { tree: insertStep(tree, newStep), step: newStep };
+}
+
+export function updateStep(tree: OutfitTree, id: string, changes: Partial<Omit<OutfitStep, 'id'>>): OutfitTree {
+  const step = tree.steps[id];
+  if (!step) return tree;
+  return { steps: { ...tree.steps, [id]: { ...step, ...changes } } };
+}
+
+/**
+ * Remove a step together with every step branched from it
+ */
+export function removeStep(tree: OutfitTree, id: string): OutfitTree {
+  const removed = new Set([id]);
+  // Steps are only ever added below existing ones, so one pass in creation order finds every descendant
+  const ordered = Object.values(tree.steps).sort((a, b) => a.createdAt - b.createdAt);
+  for (const step of ordered) {
+    if (step.parentId && removed.has(step.parentId)) {
+      removed.add(step.id);
+    }
+  }
+  return {
+    steps: Object.fromEntries(Object.entries(tree.steps).filter(([stepId]) => !removed.has(stepId))),
+  };
+}
+
+export function getChildren(tree: OutfitTree, id: string | null): OutfitStep[] {
+  return Object.values(tree.steps)
+    .filter((step) => step.parentId === id)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Steps from the root down to (and including) the given step
+ */
+export function getPath(tree: OutfitTree, id: string | null): OutfitStep[] {
+  const path: OutfitStep[] = [];
+  let step = id ? tree.steps[id] : undefined;
+  while (step) {
+    path.unshift(step);
+    step = step.parentId ? tree.steps[step.parentId] : undefined;
+  }
+  return path;
+}
+
+/**
+ * The image a new layer on top of this step starts from
+ */
+export function getStepResult(step: OutfitStep): string | null {
+  if (step.kind === 'base') return step.modelImage;
+  return step.selectedOutput || step.outputs[0] || null;
+}
@@ -0,0 +1,85 @@
+import { unzipSync } from 'fflate';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getCompressionDetails, type CompressionDetails } from './imageCompression';
+import { buildResultArchive, type ResultManifest } from './resultArchive';
+
+vi.mock('./imageCompression', () => ({ getCompressionDetails: vi.fn() }));
+
+const image = (name: string, type = 'image/jpeg') => new File([name], name, { type });
+
+async function readArchive(blob: Blob) {
+  const files = unzipSync(new Uint8Array(await blob.arrayBuffer()));
+  const manifest = JSON.parse(new TextDecoder().decode(files['manifest.json'])) as ResultManifest;
+  return { names: Object.keys(files).sort(), manifest };
+}
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(new Blob(['output'], { type: 'image/png' }))));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.mocked(getCompressionDetails).mockReset();
+});
+
+describe('buildResultArchive', () => {
+  it('records how each input was actually compressed', async () => {
+    const model = image('model.jpg');
+    const top = image('top.webp', 'image/webp');
+    const details = new Map<File, CompressionDetails>([
+      [model, { reencoded: false, type: 'image/jpeg', sizeBytes: 9, width: null, height: null, quality: null }],
+      [top, { reencoded: true, type: 'image/webp', sizeBytes: 8, width: 1280, height: 1920, quality: 0.6125 }],
+    ]);
+    vi.mocked(getCompressionDetails).mockImplementation((file) => details.get(file) ?? null);
+
+    const archive = await buildResultArchive({
+      predictionId: 'p1',
+      outputs: ['https://example.com/output-0.png'],
+      inputs: { model, garments: { top } },
+      garmentSlots: ['top'],
+      job: null,
+    });
+
+    const { names, manifest } = await readArchive(archive);
+    expect(names).toEqual(['inputs/model.jpg', 'inputs/top.webp', 'manifest.json', 'outputs/output-1.png']);
+    expect(manifest.files).toEqual({
+      outputs: ['outputs/output-1.png'],
+      model: 'inputs/model.jpg',
+      garments: { top: 'inputs/top.webp' },
+    });
+    expect(manifest.compression).toEqual({
+      model: { reencoded: false, type: 'image/jpeg', size_bytes: 9, width: null, height: null, quality: null },
+      garments: {
+        top: { reencoded: true, type: 'image/webp', size_bytes: 8, width: 1280, height: 1920, quality: 0.6125 },
+      },
+    });
+  });
+
+  it('leaves out compression details without the inputs', async () => {
+    const archive = await buildResultArchive({
+      predictionId: 'p1',
+      outputs: ['https://example.com/output-0.png'],
+      inputs: null,
+      garmentSlots: ['top'],
+      job: null,
+    });
+
+    const { names, manifest } = await readArchive(archive);
+    expect(names).toEqual(['manifest.json', 'outputs/output-1.png']);
+    expect(manifest.compression).toBeNull();
+  });
+
+  it('uses saved outputs without downloading them', async () => {
+    const archive = await buildResultArchive({
+      predictionId: 'p1',
+      outputs: [new Blob(['saved'], { type: 'image/webp' })],
+      inputs: null,
+      garmentSlots: ['top'],
+      job: null,
+    });
+
+    const { names } = await readArchive(archive);
+    expect(names).toEqual(['manifest.json', 'outputs/output-1.webp']);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
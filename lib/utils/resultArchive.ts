@@ -0,0 +1,160 @@
+import { NetworkError } from '@/lib/api/errors';
+import type { JobStatus, StyleOptions } from '@/lib/api/matchingSet';
+import type { JobHistoryEntry } from '@/lib/db/jobHistory';
+import type { ClothingType } from './clothingSlots';
+import { getCompressionDetails } from './imageCompression';
+import { createZip, type ZipEntry } from './zip';
+
+/**
+ * How one input was prepared for upload
+ */
+export interface InputCompression {
+  /** False when the file was sent as it was, e.g. already small enough or a saved model photo */
+  reencoded: boolean;
+  type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+  quality: number | null;
+}
+
+/**
+ * Metadata written as manifest.json next to the images, so renders can be filed without the app
+ */
+export interface ResultManifest {
+  prediction_id: string | null;
+  status: JobStatus | null;
+  message: string | null;
+  seed: number | null;
+  prompt: string | null;
+  style: StyleOptions;
+  created_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  exported_at: string;
+  garment_slots: ClothingType[];
+  /** Null when the inputs are not part of the archive */
+  compression: {
+    model: InputCompression | null;
+    garments: Partial<Record<ClothingType, InputCompression>>;
+  } | null;
+  files: {
+    outputs: string[];
+    model: string | null;
+    garments: Partial<Record<ClothingType, string>>;
+  };
+}
+
+export interface ResultArchiveSource {
+  predictionId: string | null;
+  /** Output URLs, or the images themselves when they were saved locally */
+  outputs: (string | Blob)[];
+  /** The compressed files that were sent, when still available in this session */
+  inputs: { model: File; garments: Partial<Record<ClothingType, File>> } | null;
+  garmentSlots: ClothingType[];
+  /** Local history entry with the backend timestamps and status message */
+  job: JobHistoryEntry | null;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+/**
+ * Download an image, reporting failures as network errors
+ * @param name - What is being downloaded, for the error message
+ */
+export async function fetchBlob(url: string, name: string): Promise<Blob> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (err) {
+    throw new NetworkError(`Failed to download ${name}`, { cause: err });
+  }
+  if (!response.ok) {
+    throw new NetworkError(`Failed to download ${name} (HTTP ${response.status})`);
+  }
+  return response.blob();
+}
+
+const withExtension = (path: string, blob: Blob) => `${path}.${EXTENSIONS[blob.type] || 'png'}`;
+
+function describeCompression(file: File): InputCompression | null {
+  const details = getCompressionDetails(file);
+  if (!details) return null;
+  return {
+    reencoded: details.reencoded,
+    type: details.type,
+    size_bytes: details.sizeBytes,
+    width: details.width,
+    height: details.height,
+    quality: details.quality,
+  };
+}
+
+/**
+ * Bundle every output, the compressed inputs and a manifest into one ZIP
+ */
+export async function buildResultArchive(source: ResultArchiveSource): Promise<Blob> {
+  const entries: ZipEntry[] = [];
+  const files: ResultManifest['files'] = { outputs: [], model: null, garments: {} };
+  let compression: ResultManifest['compression'] = null;
+
+  for (const [index, output] of source.outputs.entries()) {
+    const blob = typeof output === 'string' ? await fetchBlob(output, `output ${index + 1}`) : output;
+    const name = withExtension(`outputs/output-${index + 1}`, blob);
+    entries.push({ name, data: blob });
+    files.outputs.push(name);
+  }
+
+  if (source.inputs) {
+    const { model } = source.inputs;
+    files.model = withExtension('inputs/model', model);
+    entries.push({ name: files.model, data: model });
+    compression = { model: describeCompression(model), garments: {} };
+
+    for (const [type, garment] of Object.entries(source.inputs.garments) as [ClothingType, File][]) {
+      const name = withExtension(`inputs/${type}`, garment);
+      entries.push({ name, data: garment });
+      files.garments[type] = name;
+      const details = describeCompression(garment);
+      if (details) compression.garments[type] = details;
+    }
+  }
+
+  const manifest: ResultManifest = {
+    prediction_id: source.predictionId,
+    status: source.job?.status ?? null,
+    message: source.job?.message || null,
+    seed: source.job?.seed ?? null,
+    prompt: source.job?.prompt || null,
+    style: source.job?.style ?? {},
+    created_at: source.job?.createdAt ?? null,
+    started_at: source.job?.startedAt ?? null,
+    completed_at: source.job?.completedAt ?? null,
+    exported_at: new Date().toISOString(),
+    garment_slots: source.garmentSlots,
+    compression,
+    files,
+  };
+  entries.push({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+
+  return createZip(entries);
+}
+
+/**
+ * Save a blob through a temporary download link
+ */
+export function saveBlob(blob: Blob, filename: string): void {
+  const blobUrl = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = blobUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(blobUrl);
+}
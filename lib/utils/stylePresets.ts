@@ -0,0 +1,127 @@
+import type { StyleOptions } from '@/lib/api/matchingSet';
+
+const STORAGE_KEY = 'wardrobe:style-presets';
+
+/**
+ * A saved prompt and style combination, reused to keep catalogue renders consistent
+ */
+export interface StylePreset {
+  name: string;
+  prompt: string;
+  style: StyleOptions;
+}
+
+export interface StyleOptionField<K extends keyof StyleOptions = keyof StyleOptions> {
+  key: K;
+  label: string;
+  choices: { value: NonNullable<StyleOptions[K]>; label: string }[];
+}
+
+/**
+ * Style options in the order they are shown in the form
+ */
+export const STYLE_OPTION_FIELDS: StyleOptionField[] = [
+  {
+    key: 'background',
+    label: 'Background',
+    choices: [
+      { value: 'original', label: 'Keep original' },
+      { value: 'studio-white', label: 'Studio white' },
+      { value: 'studio-grey', label: 'Studio grey' },
+      { value: 'outdoor', label: 'Outdoor' },
+    ],
+  },
+  {
+    key: 'lighting',
+    label: 'Lighting',
+    choices: [
+      { value: 'soft', label: 'Soft' },
+      { value: 'natural', label: 'Natural' },
+      { value: 'dramatic', label: 'Dramatic' },
+    ],
+  },
+  {
+    key: 'fit',
+    label: 'Garment Fit',
+    choices: [
+      { value: 'slim', label: 'Slim' },
+      { value: 'regular', label: 'Regular' },
+      { value: 'relaxed', label: 'Relaxed' },
+      { value: 'oversized', label: 'Oversized' },
+    ],
+  },
+  {
+    key: 'tuck',
+    label: 'Top',
+    choices: [
+      { value: 'tucked', label: 'Tucked in' },
+      { value: 'untucked', label: 'Untucked' },
+    ],
+  },
+];
+
+const NO_PRESETS: StylePreset[] = [];
+const listeners = new Set<() => void>();
+let cachedRaw: string | null = null;
+let cachedPresets: StylePreset[] = NO_PRESETS;
+
+function parsePresets(raw: string | null): StylePreset[] {
+  try {
+    const presets = raw ? (JSON.parse(raw) as StylePreset[]) : [];
+    return Array.isArray(presets) ? presets.sort((a, b) => a.name.localeCompare(b.name)) : NO_PRESETS;
+  } catch {
+    return NO_PRESETS;
+  }
+}
+
+/**
+ * The saved presets, sorted by name. The same array is returned until storage changes,
+ * so it can be used as a `useSyncExternalStore` snapshot.
+ */
+export function getStylePresets(): StylePreset[] {
+  if (typeof window === 'undefined') return NO_PRESETS;
+  const raw = window.localStorage.getItem(STORAGE_KEY);
+  if (raw !== cachedRaw) {
+    cachedRaw = raw;
+    cachedPresets = parsePresets(raw);
+  }
+  return cachedPresets;
+}
+
+/**
+ * Presets are only stored in the browser, so the server always renders none
+ */
+export function getServerStylePresets(): StylePreset[] {
+  return NO_PRESETS;
+}
+
+/**
+ * Listen for preset changes, including ones made in other tabs
+ */
+export function subscribeToStylePresets(listener: () => void): () => void {
+  listeners.add(listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+function writeStylePresets(presets: StylePreset[]): void {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Save a preset, replacing any preset with the same name
+ */
+export function saveStylePreset(preset: StylePreset): void {
+  writeStylePresets([...getStylePresets().filter((existing) => existing.name !== preset.name), preset]);
+}
+
+/**
+ * Delete a preset by name
+ */
+export function deleteStylePreset(name: string): void {
+  writeStylePresets(getStylePresets().filter((preset) => preset.name !== name));
+}
@@ -0,0 +1,59 @@
+import { unzipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zip';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+async function unzip(blob: Blob): Promise<Record<string, string>> {
+  const files = unzipSync(new Uint8Array(await blob.arrayBuffer()));
+  return Object.fromEntries(Object.entries(files).map(([name, data]) => [name, new TextDecoder().decode(data)]));
+}
+
+describe('crc32', () => {
+  it.each([
+    ['', 0],
+    ['a', 0xe8b7be43],
+    ['123456789', 0xcbf43926],
+    ['The quick brown fox jumps over the lazy dog', 0x414fa339],
+  ])('matches the reference checksum of %j', (text, expected) => {
+    expect(crc32(bytes(text))).toBe(expected);
+  });
+});
+
+describe('createZip', () => {
+  it('round-trips string and blob entries through an unzip implementation', async () => {
+    const zip = await createZip([
+      { name: 'manifest.json', data: '{"outputs":2}' },
+      { name: 'outputs/1.png', data: new Blob([bytes('first image')]) },
+      { name: 'inputs/modèle.jpg', data: new Blob([bytes('model photo')]) },
+    ]);
+
+    expect(zip.type).toBe('application/zip');
+    expect(await unzip(zip)).toEqual({
+      'manifest.json': '{"outputs":2}',
+      'outputs/1.png': 'first image',
+      'inputs/modèle.jpg': 'model photo',
+    });
+  });
+
+  it('stores entries uncompressed with their checksum', async () => {
+    const data = bytes('123456789');
+    const view = new DataView(await (await createZip([{ name: 'a.txt', data: '123456789' }])).arrayBuffer());
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(8, true)).toBe(0);
+    expect(view.getUint32(14, true)).toBe(0xcbf43926);
+    expect(view.getUint32(18, true)).toBe(data.length);
+  });
+
+  it('writes the modification time as an MS-DOS timestamp', async () => {
+    const view = new DataView(await (await createZip([{ name: 'a.txt', data: '' }], new Date(2026, 2, 14, 9, 26, 54))).arrayBuffer());
+
+    expect(view.getUint16(10, true)).toBe((9 << 11) | (26 << 5) | 27);
+    expect(view.getUint16(12, true)).toBe(((2026 - 1980) << 9) | (3 << 5) | 14);
+  });
+
+  it('builds a valid empty archive', async () => {
+    expect(await unzip(await createZip([]))).toEqual({});
+  });
+});